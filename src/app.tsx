@@ -5,10 +5,19 @@ import HomePage from './pages/home.tsx';
 import DropTarget from './ui/DropTarget.tsx';
 import { runInAction } from 'mobx';
 import EncounterIndex from './pages/encounter';
+import LivePage from './pages/live.tsx';
+import { EncounterSelection, SelectionContext } from './state/selection.ts';
+import { MeterSettings, MeterSettingsContext } from './state/settings.ts';
 
 // the main state object.
 const log = new Log();
 
+// the encounter list selection state.
+const selection = new EncounterSelection();
+
+// the damage and healing meter settings.
+const settings = new MeterSettings();
+
 /**
  * Highest level 'App' component which renders the entire application.
  *
@@ -16,20 +25,25 @@ const log = new Log();
  */
 const App = observer(() => {
     /**
-     * Function which handles when a file is dropped onto the Home page.
+     * Function which handles when files are dropped onto the Home page.
      *
-     * @param file the dropped file.
+     * @param files the dropped files.
      */
-    const handleDrop = (file: File) => {
-        runInAction(() => log.parseFile(file));
+    const handleDrop = (files: File[]) => {
+        runInAction(() => log.selectFiles(files));
     };
 
     return (
         <LogContext value={log}>
-            <Routes>
-                <Route path={'encounter/*'} element={<EncounterIndex />} />
-                <Route index element={<HomePage />} />
-            </Routes>
+            <SelectionContext value={selection}>
+                <MeterSettingsContext value={settings}>
+                    <Routes>
+                        <Route path={'encounter/*'} element={<EncounterIndex />} />
+                        <Route path={'live'} element={<LivePage />} />
+                        <Route index element={<HomePage />} />
+                    </Routes>
+                </MeterSettingsContext>
+            </SelectionContext>
 
             <DropTarget onDrop={handleDrop} />
         </LogContext>
@@ -0,0 +1,236 @@
+import { observer } from 'mobx-react';
+import { useContext } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import styled from 'styled-components';
+import { DateTime, Duration } from 'luxon';
+import { minBy, round } from 'lodash';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { LogContext } from '../../state/log.ts';
+import { BossPull, bossPulls } from '../../state/progression.ts';
+import theme, { ScrollableContent } from '../../theme.tsx';
+import { Box, Header } from '../../ui/Common.tsx';
+import { UI_CANCEL, UIIcon } from '../../ui/Icon.tsx';
+import { EncounterGraph } from '../../ui/encounter/Common.tsx';
+import { shortenNumber } from '../../util/numbers.ts';
+
+/**
+ * Component which renders the progression history for a boss, listing every pull of the boss in
+ * the loaded log.
+ */
+const BossProgressionPage = observer(() => {
+    const log = useContext(LogContext);
+    const name = useParams().name ?? ``;
+    const pulls = bossPulls(log.encounters, name);
+
+    // if this boss was never pulled, get out of here.
+    if (!pulls.length) return <Navigate to={`/encounter`} />;
+
+    const kills = pulls.filter((it) => it.isKill).length;
+    const best = minBy(
+        pulls.filter((it) => !it.isKill && it.healthRemaining !== undefined),
+        (it) => it.healthRemaining,
+    );
+
+    return (
+        <Container>
+            <TitleHeader background={`secondary`}>
+                <TitleText>
+                    <strong>{name}</strong>: {pulls.length} {pulls.length === 1 ? `pull` : `pulls`},{' '}
+                    {kills} {kills === 1 ? `kill` : `kills`}
+                    {best && <> (best wipe at {round(best.healthRemaining!, 1)}%)</>}
+                </TitleText>
+                <CloseButton to={`/encounter`}>
+                    <UIIcon path={UI_CANCEL} height={24} width={24} />
+                </CloseButton>
+            </TitleHeader>
+            <ContentContainer>
+                <Content>
+                    <EncounterGraph title={`progression over each pull`}>
+                        <ProgressionGraph pulls={pulls} />
+                    </EncounterGraph>
+                    <PullsBox header={`pulls`}>
+                        {pulls.map((it, index) => (
+                            <PullItem key={it.encounter.id} pull={it} index={index} />
+                        ))}
+                    </PullsBox>
+                </Content>
+            </ContentContainer>
+        </Container>
+    );
+});
+
+export default BossProgressionPage;
+
+/**
+ * Component which graphs raid DPS and the boss health remaining over each pull.
+ *
+ * @param pulls the pulls of the boss
+ * @constructor
+ */
+const ProgressionGraph = ({ pulls }: { pulls: BossPull[] }) => {
+    const data = pulls.map((it, index) => ({
+        pull: index + 1,
+        'raid dps': round(it.raidDps),
+        'boss health %':
+            it.healthRemaining === undefined ? undefined : round(it.healthRemaining, 1),
+    }));
+
+    return (
+        <ResponsiveContainer width='100%' height={270}>
+            <LineChart
+                data={data}
+                margin={{
+                    top: 16,
+                    right: 12,
+                    left: -4,
+                    bottom: 0,
+                }}
+            >
+                <XAxis dataKey='pull' tickFormatter={(i) => `#${i}`} />
+                <YAxis yAxisId='dps' tickFormatter={(i) => shortenNumber(i)} />
+                <YAxis yAxisId='health' orientation='right' domain={[0, 100]} unit='%' />
+                <Tooltip
+                    labelFormatter={(label) => `pull #${label}`}
+                    contentStyle={{ background: 'black' }}
+                />
+                <Line yAxisId='dps' type='monotone' dataKey='raid dps' stroke={`#70bfff`} />
+                <Line
+                    yAxisId='health'
+                    type='monotone'
+                    dataKey='boss health %'
+                    stroke={theme.color.error}
+                    connectNulls
+                />
+            </LineChart>
+        </ResponsiveContainer>
+    );
+};
+
+/**
+ * A single pull in the list of pulls, which links to the pull's encounter page.
+ *
+ * @param pull the pull
+ * @param index the index of the pull
+ * @constructor
+ */
+const PullItem = ({ pull, index }: { pull: BossPull; index: number }) => {
+    const { encounter } = pull;
+    const start = DateTime.fromMillis(encounter.start).toLocaleString(DateTime.DATETIME_SHORT);
+    const duration = Duration.fromMillis(encounter.duration).rescale().toHuman();
+    return (
+        <Link to={`/encounter/${encounter.id}?mode=damage-done`}>
+            <PullContainer>
+                <PullText>#{index + 1}</PullText>
+                <PullText>{start}</PullText>
+                <PullResult $failed={!pull.isKill}>{pull.isKill ? `kill` : `wipe`}</PullResult>
+                <PullText>{duration}</PullText>
+                <PullText>{shortenNumber(round(pull.raidDps))} raid dps</PullText>
+                {!pull.isKill && pull.healthRemaining !== undefined && (
+                    <PullText>boss at {round(pull.healthRemaining, 1)}%</PullText>
+                )}
+            </PullContainer>
+        </Link>
+    );
+};
+
+/**
+ * A container component for the boss progression page.
+ */
+const Container = styled.div`
+    height: calc(100% - 47px);
+    overflow-y: hidden;
+`;
+
+/**
+ * A styled header component for the boss progression title.
+ */
+const TitleHeader = styled(Header)`
+    justify-content: space-between;
+`;
+
+/**
+ * Styled div for the boss progression title text.
+ */
+const TitleText = styled.div`
+    padding: 8px;
+`;
+
+/**
+ * Styled link which closes the boss progression page.
+ */
+const CloseButton = styled(Link)`
+    display: flex;
+    align-items: center;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
+
+/**
+ * Styled content container that handles scrolling
+ */
+const ContentContainer = styled(ScrollableContent)`
+    width: calc(100% - 8px);
+    height: calc(100% - 40px);
+    overflow-y: scroll;
+`;
+
+/**
+ * A styled content div for the boss progression page.
+ */
+const Content = styled.div`
+    max-width: 1000px;
+    margin: 8px auto;
+
+    color: ${theme.color.white};
+    font-family: ${theme.font.header};
+`;
+
+/**
+ * Styled container for the list of pulls.
+ */
+const PullsBox = styled(Box)`
+    margin-top: 8px;
+`;
+
+/**
+ * Styled container div for a pull list item.
+ */
+const PullContainer = styled.div`
+    display: grid;
+    grid-template-columns: 40px 180px 50px 1fr 160px 120px;
+    gap: 8px;
+    padding: 8px;
+    background: ${theme.color.darkerGrey};
+    border-top: 1px solid ${theme.color.darkerBackground};
+    cursor: pointer;
+    user-select: none;
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+`;
+
+/**
+ * Styled text span for a pull list item.
+ */
+const PullText = styled.span`
+    font-size: 0.9em;
+`;
+
+/**
+ * Styled text span showing whether a pull was a kill or a wipe.
+ */
+const PullResult = styled.span<{ $failed: boolean }>`
+    color: ${(props) => (props.$failed ? theme.color.error : theme.color.success)};
+`;
@@ -8,6 +8,11 @@ import CharacterDamageTaken from '../../ui/encounter/CharacterDamageTaken.tsx';
 import { useEncounter } from '../../state/encounter.ts';
 import CharacterHealing from '../../ui/encounter/CharacterHealing.tsx';
 import CharacterEventLog from '../../ui/encounter/CharacterEventLog.tsx';
+import CharacterDeaths from '../../ui/encounter/CharacterDeaths.tsx';
+import CharacterOverview from '../../ui/encounter/CharacterOverview.tsx';
+import ClassSelect from '../../ui/encounter/ClassSelect.tsx';
+import PetOwnerSelect from '../../ui/encounter/PetOwnerSelect.tsx';
+import { useOwnerOf } from '../../state/pets.ts';
 
 /**
  * Component which renders a character detail page.
@@ -15,6 +20,7 @@ import CharacterEventLog from '../../ui/encounter/CharacterEventLog.tsx';
 const CharacterDetailPage = observer(() => {
     // if our id is invalid, get out of here.
     const encounter = useEncounter();
+    const ownerOf = useOwnerOf();
     const id = parseInt(useParams().id || '');
     if (isNaN(id) || !encounter.getEntityByIndex(id))
         return <Navigate to={'../..'} relative={`path`} />;
@@ -45,7 +51,11 @@ const CharacterDetailPage = observer(() => {
             );
             break;
         case 'deaths':
-            content = <Content></Content>;
+            content = (
+                <Content>
+                    <CharacterDeaths entity={entity} />
+                </Content>
+            );
             break;
         case 'events':
             content = (
@@ -55,7 +65,11 @@ const CharacterDetailPage = observer(() => {
             );
             break;
         default:
-            content = <Content></Content>;
+            content = (
+                <Content>
+                    <CharacterOverview entity={entity} />
+                </Content>
+            );
             break;
     }
 
@@ -68,6 +82,15 @@ const CharacterDetailPage = observer(() => {
                 <HeaderText>
                     showing character details for <strong>{entity.name}</strong>
                 </HeaderText>
+                {!entity.isEnemy && !entity.isPet && !ownerOf(entity) && (
+                    <>
+                        <HistoryLink to={`/encounter/character/${encodeURIComponent(entity.name)}`}>
+                            history
+                        </HistoryLink>
+                        <ClassSelect entity={entity} />
+                    </>
+                )}
+                {!entity.isEnemy && <PetOwnerSelect entity={entity} />}
             </Header>
             <ContentContainer>{content}</ContentContainer>
         </Container>
@@ -145,3 +168,21 @@ const ButtonContainer = styled(Link)`
         background-color: rgba(0, 0, 0, 0.5);
     }
 `;
+
+/**
+ * Styled link to the character's performance history across every encounter.
+ */
+const HistoryLink = styled(Link)`
+    display: flex;
+    align-items: center;
+    margin-left: auto;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
@@ -0,0 +1,288 @@
+import { observer } from 'mobx-react';
+import { useContext } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import styled from 'styled-components';
+import { DateTime } from 'luxon';
+import { meanBy, round } from 'lodash';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { LogContext } from '../../state/log.ts';
+import {
+    CharacterAppearance,
+    characterHistory,
+    historyDamageBreakdown,
+} from '../../state/history.ts';
+import { DamageBreakdownData } from '../../state/encounter.ts';
+import theme, { ScrollableContent } from '../../theme.tsx';
+import { Box, Header } from '../../ui/Common.tsx';
+import { UI_CANCEL, UIIcon } from '../../ui/Icon.tsx';
+import { EncounterGraph } from '../../ui/encounter/Common.tsx';
+import { shortenNumber } from '../../util/numbers.ts';
+
+/**
+ * The number of abilities to list in the top abilities box.
+ */
+const TOP_ABILITIES = 10;
+
+/**
+ * Component which renders the performance history for a character, listing every encounter the
+ * character appeared in within the loaded log.
+ */
+const CharacterHistoryPage = observer(() => {
+    const log = useContext(LogContext);
+    const name = useParams().name ?? ``;
+    const history = characterHistory(log.encounters, name);
+
+    // if this character never appeared, get out of here.
+    if (!history.length) return <Navigate to={`/encounter`} />;
+    const breakdown = historyDamageBreakdown(history);
+
+    return (
+        <Container>
+            <TitleHeader background={`secondary`}>
+                <TitleText>
+                    <strong>{name}</strong>: {history.length}{' '}
+                    {history.length === 1 ? `encounter` : `encounters`},{' '}
+                    {shortenNumber(round(meanBy(history, (it) => it.dps)))} average dps
+                </TitleText>
+                <CloseButton to={`/encounter`}>
+                    <UIIcon path={UI_CANCEL} height={24} width={24} />
+                </CloseButton>
+            </TitleHeader>
+            <ContentContainer>
+                <Content>
+                    <EncounterGraph title={`dps over each encounter`}>
+                        <HistoryGraph history={history} />
+                    </EncounterGraph>
+                    <HistoryBox header={`encounters`}>
+                        <HistoryHeader>
+                            <span>time</span>
+                            <span>encounter</span>
+                            <span>dps</span>
+                            <span>hps</span>
+                            <span>taken</span>
+                            <span>rank</span>
+                        </HistoryHeader>
+                        {history.map((it) => (
+                            <HistoryItem key={it.encounter.id} appearance={it} />
+                        ))}
+                    </HistoryBox>
+                    <HistoryBox header={`top abilities (across every encounter)`}>
+                        <AbilityList breakdown={breakdown} />
+                    </HistoryBox>
+                </Content>
+            </ContentContainer>
+        </Container>
+    );
+});
+
+export default CharacterHistoryPage;
+
+/**
+ * Component which graphs a character's DPS over each encounter they appeared in.
+ *
+ * @param history the encounters the character appeared in
+ * @constructor
+ */
+const HistoryGraph = ({ history }: { history: CharacterAppearance[] }) => {
+    const data = history.map((it) => ({
+        time: it.encounter.start,
+        title: it.title,
+        dps: round(it.dps),
+    }));
+
+    return (
+        <ResponsiveContainer width='100%' height={270}>
+            <LineChart
+                data={data}
+                margin={{
+                    top: 16,
+                    right: 12,
+                    left: -4,
+                    bottom: 0,
+                }}
+            >
+                <XAxis
+                    dataKey='time'
+                    type='number'
+                    scale='time'
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(i) => DateTime.fromMillis(i).toFormat(`HH:mm`)}
+                />
+                <YAxis tickFormatter={(i) => shortenNumber(i)} />
+                <Tooltip
+                    labelFormatter={(label, payload) =>
+                        `${payload[0]?.payload.title ?? ``} (${DateTime.fromMillis(label).toLocaleString(DateTime.TIME_SIMPLE)})`
+                    }
+                    contentStyle={{ background: 'black' }}
+                />
+                <Line type='monotone' dataKey='dps' stroke={`#70bfff`} />
+            </LineChart>
+        </ResponsiveContainer>
+    );
+};
+
+/**
+ * A single encounter in the character's history, which links to the character's page for that
+ * encounter.
+ *
+ * @param appearance the character's performance in the encounter
+ * @constructor
+ */
+const HistoryItem = ({ appearance }: { appearance: CharacterAppearance }) => {
+    const { encounter, entity, title } = appearance;
+    const start = DateTime.fromMillis(encounter.start).toLocaleString(DateTime.DATETIME_SHORT);
+    return (
+        <Link to={`/encounter/${encounter.id}/character/${entity.index}?mode=damage-done`}>
+            <HistoryContainer>
+                <HistoryText>{start}</HistoryText>
+                <HistoryText>{title}</HistoryText>
+                <HistoryText>{round(appearance.dps).toLocaleString()}</HistoryText>
+                <HistoryText>{round(appearance.hps).toLocaleString()}</HistoryText>
+                <HistoryText>{shortenNumber(appearance.damageTaken)}</HistoryText>
+                <HistoryText>
+                    {appearance.rank} of {appearance.characters}
+                </HistoryText>
+            </HistoryContainer>
+        </Link>
+    );
+};
+
+/**
+ * Component which lists a character's top damage abilities, merged across every encounter.
+ *
+ * @param breakdown the character's merged damage breakdown
+ * @constructor
+ */
+const AbilityList = ({ breakdown }: { breakdown: DamageBreakdownData }) => (
+    <>
+        {breakdown.items.slice(0, TOP_ABILITIES).map((it) => {
+            const percent = (it.data.total / breakdown.total) * 100;
+            return (
+                <AbilityContainer key={`${it.type}-${it.name}`} $percent={percent}>
+                    <HistoryText>{it.name}</HistoryText>
+                    <HistoryText>{shortenNumber(it.data.total)}</HistoryText>
+                    <HistoryText>{round(percent, 1)}%</HistoryText>
+                </AbilityContainer>
+            );
+        })}
+    </>
+);
+
+/**
+ * A container component for the character history page.
+ */
+const Container = styled.div`
+    height: calc(100% - 47px);
+    overflow-y: hidden;
+`;
+
+/**
+ * A styled header component for the character history title.
+ */
+const TitleHeader = styled(Header)`
+    justify-content: space-between;
+`;
+
+/**
+ * Styled div for the character history title text.
+ */
+const TitleText = styled.div`
+    padding: 8px;
+`;
+
+/**
+ * Styled link which closes the character history page.
+ */
+const CloseButton = styled(Link)`
+    display: flex;
+    align-items: center;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
+
+/**
+ * Styled content container that handles scrolling
+ */
+const ContentContainer = styled(ScrollableContent)`
+    width: calc(100% - 8px);
+    height: calc(100% - 40px);
+    overflow-y: scroll;
+`;
+
+/**
+ * A styled content div for the character history page.
+ */
+const Content = styled.div`
+    max-width: 1000px;
+    margin: 8px auto;
+
+    color: ${theme.color.white};
+    font-family: ${theme.font.header};
+`;
+
+/**
+ * Styled container for the lists on the character history page.
+ */
+const HistoryBox = styled(Box)`
+    margin-top: 8px;
+`;
+
+/**
+ * Styled header row for the list of encounters.
+ */
+const HistoryHeader = styled.div`
+    display: grid;
+    grid-template-columns: 180px 1fr 80px 80px 80px 80px;
+    gap: 8px;
+    padding: 4px 8px;
+    font-size: 0.8em;
+`;
+
+/**
+ * Styled container div for an encounter list item.
+ */
+const HistoryContainer = styled.div`
+    display: grid;
+    grid-template-columns: 180px 1fr 80px 80px 80px 80px;
+    gap: 8px;
+    padding: 8px;
+    background: ${theme.color.darkerGrey};
+    border-top: 1px solid ${theme.color.darkerBackground};
+    cursor: pointer;
+    user-select: none;
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+`;
+
+/**
+ * Styled container div for an ability list item, filled in proportion to its share of the damage.
+ */
+const AbilityContainer = styled.div<{ $percent: number }>`
+    display: grid;
+    grid-template-columns: 1fr 80px 80px;
+    gap: 8px;
+    padding: 8px;
+    background: ${(props) =>
+        `linear-gradient(to right, ${theme.color.friend}, ${theme.color.friend} ${props.$percent}%, ${theme.color.darkerGrey} ${props.$percent}% 100%)`};
+    border-top: 1px solid ${theme.color.darkerBackground};
+`;
+
+/**
+ * Styled text span for a list item.
+ */
+const HistoryText = styled.span`
+    font-size: 0.9em;
+`;
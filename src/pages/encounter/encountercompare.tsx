@@ -0,0 +1,163 @@
+import { observer } from 'mobx-react';
+import { useContext } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import styled from 'styled-components';
+import { LogContext } from '../../state/log.ts';
+import EncounterState from '../../state/encounter.ts';
+import theme, { ScrollableContent } from '../../theme.tsx';
+import { Header } from '../../ui/Common.tsx';
+import { UI_CANCEL, UIIcon } from '../../ui/Icon.tsx';
+import { EncounterGraph } from '../../ui/encounter/Common.tsx';
+import {
+    CompareMeters,
+    CompareTimelineGraph,
+    compareColor,
+} from '../../ui/encounter/EncounterComparison.tsx';
+
+/**
+ * Component which renders a comparison between several encounters, side by side.
+ *
+ * The encounters to compare are read from the `ids` search parameter, as a comma-separated list of
+ * encounter ids. Differences are measured against the first encounter.
+ */
+const EncounterComparePage = observer(() => {
+    const log = useContext(LogContext);
+    const [nav] = useSearchParams();
+    const selected = (nav.get(`ids`) ?? ``)
+        .split(`,`)
+        .map((it) => log.findEncounter(parseInt(it)))
+        .filter((it) => it !== undefined);
+
+    // we need at least two encounters to compare.
+    if (selected.length < 2) return <Navigate to={`/encounter`} />;
+    const encounters = selected.map((it) => new EncounterState(it));
+
+    return (
+        <Container>
+            <TitleHeader background={`secondary`}>
+                <TitleText>
+                    comparing{' '}
+                    {encounters.map((it, index) => (
+                        <Link key={`${it.id}-${index}`} to={`/encounter/${it.id}?mode=damage-done`}>
+                            <EncounterText $color={compareColor(index)}>
+                                #{index + 1} {it.title} (
+                                {it.start.toLocaleString({
+                                    month: 'short',
+                                    day: '2-digit',
+                                    hour: '2-digit',
+                                    minute: '2-digit',
+                                })}
+                                )
+                            </EncounterText>
+                        </Link>
+                    ))}
+                </TitleText>
+                <CloseButton to={`/encounter`}>
+                    <UIIcon path={UI_CANCEL} height={24} width={24} />
+                </CloseButton>
+            </TitleHeader>
+            <ContentContainer>
+                <Content>
+                    <EncounterGraph title={`ally dps by encounter (from the start of each pull)`}>
+                        <CompareTimelineGraph encounters={encounters} />
+                    </EncounterGraph>
+                    <MetersContainer>
+                        {encounters.map((it, index) => (
+                            <CompareMeters
+                                key={`${it.id}-${index}`}
+                                encounter={it}
+                                baseline={encounters[0]}
+                                index={index}
+                            />
+                        ))}
+                    </MetersContainer>
+                </Content>
+            </ContentContainer>
+        </Container>
+    );
+});
+
+export default EncounterComparePage;
+
+/**
+ * A container component for the encounter comparison page.
+ */
+const Container = styled.div`
+    height: calc(100% - 47px);
+    overflow-y: hidden;
+`;
+
+/**
+ * A styled header component for the comparison title.
+ */
+const TitleHeader = styled(Header)`
+    justify-content: space-between;
+`;
+
+/**
+ * Styled div for the comparison title text.
+ */
+const TitleText = styled.div`
+    padding: 8px;
+    display: flex;
+    flex-wrap: wrap;
+    gap: 8px;
+`;
+
+/**
+ * Styled span for the name of a compared encounter, in the color used for it in the graph.
+ */
+const EncounterText = styled.span<{ $color: string }>`
+    color: ${(props) => props.$color};
+
+    &:hover {
+        text-decoration: underline dotted;
+    }
+`;
+
+/**
+ * Styled link which closes the comparison.
+ */
+const CloseButton = styled(Link)`
+    display: flex;
+    align-items: center;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
+
+/**
+ * Styled content container that handles scrolling
+ */
+const ContentContainer = styled(ScrollableContent)`
+    width: calc(100% - 8px);
+    height: calc(100% - 40px);
+    overflow-y: scroll;
+`;
+
+/**
+ * A styled content div for the comparison page.
+ */
+const Content = styled.div`
+    max-width: 1400px;
+    margin: 8px auto;
+
+    color: ${theme.color.white};
+    font-family: ${theme.font.header};
+`;
+
+/**
+ * Styled container div for the meters of each compared encounter.
+ */
+const MetersContainer = styled.div`
+    margin-top: 8px;
+    display: flex;
+    flex-wrap: wrap;
+    gap: 8px;
+`;
@@ -1,7 +1,7 @@
 import { observer } from 'mobx-react';
-import { useContext } from 'react';
-import { LogContext } from '../../state/log.ts';
-import { Navigate, Route, Routes, useParams, useSearchParams } from 'react-router-dom';
+import { useContext, useEffect, useState } from 'react';
+import { LogContext, LogEncounter } from '../../state/log.ts';
+import { Link, Navigate, Route, Routes, useParams, useSearchParams } from 'react-router-dom';
 import styled from 'styled-components';
 import theme, { ScrollableContent } from '../../theme.tsx';
 import CharacterDetailPage from './characterdetail.tsx';
@@ -13,22 +13,49 @@ import EncounterNav from '../../ui/encounter/EncounterNav.tsx';
 import EncounterState, { EncounterContext } from '../../state/encounter.ts';
 import EncounterTitle from '../../ui/encounter/EncounterTitle.tsx';
 import EncounterEventLog from '../../ui/encounter/EncounterEventLog.tsx';
+import EncounterDeaths from '../../ui/encounter/EncounterDeaths.tsx';
+import LocateFiles from '../../ui/LocateFiles.tsx';
+import { EncounterWindow, formatWindow, parseWindowId, toWindowId } from '../../state/windows.ts';
 
 /**
  * Component which renders an encounter detail page.
  */
 const EncounterDetailPage = observer(() => {
     const log = useContext(LogContext);
+    const { base, window } = parseWindowId(useParams().id || '');
     // if we don't have any encounters, get out of here.
     if (log.encounters.length === 0) return <Navigate to={'/'} />;
 
     // if our id is invalid, get out of here.
-    const id = parseInt(useParams().id || '');
-    if (isNaN(id) || id >= log.encounters.length) return <Navigate to={'..'} relative={`path`} />;
+    const encounter = log.getEncounter(base);
+    if (!encounter) return <Navigate to={'..'} relative={`path`} />;
 
+    // a window of time within the encounter needs to be parsed again before we can show it.
+    if (window) return <EncounterWindowPage key={base} encounter={encounter} window={window} />;
+    return <EncounterPage encounter={encounter} />;
+});
+
+export default EncounterDetailPage;
+
+/**
+ * Props accepted by the EncounterPage component.
+ */
+type EncounterPageProps = {
+    /**
+     * The encounter to show.
+     */
+    encounter: LogEncounter;
+};
+
+/**
+ * Component which renders the content of an encounter detail page for an encounter.
+ *
+ * @param props the props accepted by the encounter page component
+ * @constructor
+ */
+const EncounterPage = observer(({ encounter }: EncounterPageProps) => {
     const [nav] = useSearchParams();
     const mode = nav.get('mode');
-    const encounter = log.encounters[id];
 
     let content;
     switch (mode) {
@@ -54,7 +81,11 @@ const EncounterDetailPage = observer(() => {
             );
             break;
         case 'deaths':
-            content = <Content></Content>;
+            content = (
+                <Content>
+                    <EncounterDeaths />
+                </Content>
+            );
             break;
         case 'events':
             content = (
@@ -88,7 +119,77 @@ const EncounterDetailPage = observer(() => {
     );
 });
 
-export default EncounterDetailPage;
+/**
+ * Props accepted by the EncounterWindowPage component.
+ */
+type EncounterWindowPageProps = {
+    /**
+     * The whole encounter.
+     */
+    encounter: LogEncounter;
+
+    /**
+     * The window of time within the encounter to show.
+     */
+    window: EncounterWindow;
+};
+
+/**
+ * Component which renders an encounter detail page for a window of time within an encounter, once
+ * the encounter has been parsed again for just that window.
+ *
+ * @param props the props accepted by the encounter window page component
+ * @constructor
+ */
+const EncounterWindowPage = observer(({ encounter, window }: EncounterWindowPageProps) => {
+    const log = useContext(LogContext);
+    const id = toWindowId(encounter.segment ?? encounter.id, window);
+    const [result, setResult] = useState<{
+        id: string;
+        encounter?: LogEncounter;
+        error?: string;
+    }>();
+    const [missing, setMissing] = useState(log.missingSources(encounter));
+
+    useEffect(() => {
+        if (missing.length) return;
+        let cancelled = false;
+        log.getWindow(encounter, window)
+            .then((it) => !cancelled && setResult({ id, encounter: it }))
+            .catch((e) => !cancelled && setResult({ id, error: e.message }));
+        return () => {
+            cancelled = true;
+        };
+    }, [encounter, id, missing]);
+
+    if (result?.id === id && result.encounter)
+        return <EncounterPage encounter={result.encounter} />;
+
+    const back = `/encounter/${encounter.segment ?? encounter.id}`;
+    let message;
+    if (missing.length) {
+        message = (
+            <LocateFiles
+                reason={`to show this window of time`}
+                files={missing}
+                onLocate={() => setMissing(log.missingSources(encounter))}
+            />
+        );
+    } else if (result?.id === id && result.error) {
+        message = `couldn't show ${formatWindow(window)}: ${result.error}`;
+    } else {
+        message = `recalculating ${formatWindow(window)}...`;
+    }
+
+    return (
+        <Container>
+            <Content>
+                <WindowText>{message}</WindowText>
+                <WindowLink to={back}>back to the whole encounter</WindowLink>
+            </Content>
+        </Container>
+    );
+});
 
 /**
  * A container component for the encounter detail page.
@@ -117,3 +218,17 @@ const Content = styled.div`
     color: ${theme.color.white};
     font-family: ${theme.font.header};
 `;
+
+/**
+ * Styled text shown while a window of time is being recalculated.
+ */
+const WindowText = styled.div`
+    margin-bottom: 8px;
+`;
+
+/**
+ * Styled link back to the whole encounter from a window of time.
+ */
+const WindowLink = styled(Link)`
+    color: ${theme.color.secondary};
+`;
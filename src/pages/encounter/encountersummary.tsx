@@ -0,0 +1,279 @@
+import { observer } from 'mobx-react';
+import { useContext } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import styled from 'styled-components';
+import { round, sumBy, uniq } from 'lodash';
+import { Duration } from 'luxon';
+import { LogContext } from '../../state/log.ts';
+import { MeterSettingsContext } from '../../state/settings.ts';
+import EncounterState, {
+    DamageBreakdownData,
+    HealingBreakdownData,
+} from '../../state/encounter.ts';
+import { CharacterSummary, summarizeCharacters } from '../../state/summary.ts';
+import theme, { ScrollableContent } from '../../theme.tsx';
+import { Header } from '../../ui/Common.tsx';
+import { UI_CANCEL, UIIcon } from '../../ui/Icon.tsx';
+import { shortenNumber } from '../../util/numbers.ts';
+import DamageMeter, { MeterItem } from '../../ui/encounter/charts/DamageMeter.tsx';
+import { TooltipChart } from '../../ui/encounter/charts/Components.tsx';
+
+/**
+ * The number of damage or healing sources to show when hovering over a character.
+ */
+const TOOLTIP_SOURCES = 3;
+
+/**
+ * Component which renders an aggregate report for several encounters, combining each character's
+ * damage, healing, deaths and uptime across every encounter.
+ *
+ * The encounters to summarize are read from the `ids` search parameter, as a comma-separated list
+ * of encounter ids.
+ */
+const EncounterSummaryPage = observer(() => {
+    const log = useContext(LogContext);
+    const settings = useContext(MeterSettingsContext);
+    const [nav] = useSearchParams();
+    const selected = (nav.get(`ids`) ?? ``)
+        .split(`,`)
+        .map((it) => log.findEncounter(parseInt(it)))
+        .filter((it) => it !== undefined);
+
+    if (!selected.length) return <Navigate to={`/encounter`} />;
+    const encounters = selected.map((it) => new EncounterState(it));
+    const characters = summarizeCharacters(encounters, settings.gapTolerance);
+    const zones = uniq(selected.map((it) => it.zone || `unknown zone`)).join(`, `);
+    const duration = Duration.fromObject({
+        seconds: round(sumBy(encounters, (it) => it.duration.as('seconds'))),
+    });
+
+    /**
+     * Create meter items for each character.
+     *
+     * @param value function returning the combined value for a character
+     * @param perSecond function returning the combined value per second for a character
+     * @param healing are these healing items?
+     */
+    const toItems = (
+        value: (it: CharacterSummary) => number,
+        perSecond: (it: CharacterSummary) => number,
+        healing: boolean,
+    ) => {
+        const total = sumBy(characters, value);
+        return characters
+            .map((it): MeterItem => ({
+                entity: it.entity,
+                displayName: it.displayName,
+                index: it.entity.index,
+                value: value(it),
+                perSecond: perSecond(it),
+                percent: (value(it) / total) * 100,
+                link: it.entity.isPet
+                    ? undefined
+                    : `/encounter/character/${encodeURIComponent(it.entity.name)}`,
+                background: healing ? theme.color.friendHeal : theme.color.friend,
+                tooltip: <SourcesTooltip breakdown={healing ? it.healing : it.damage} />,
+            }))
+            .filter((it) => it.value > 0);
+    };
+
+    /**
+     * Find the summary for a meter item.
+     *
+     * @param item the meter item
+     */
+    const summaryOf = (item: MeterItem) => characters.find((it) => it.entity === item.entity)!;
+
+    return (
+        <Container>
+            <TitleHeader background={`secondary`}>
+                <TitleText>
+                    summary of {encounters.length} encounter{encounters.length === 1 ? `` : `s`} in{' '}
+                    {zones} ({duration.rescale().toHuman()})
+                </TitleText>
+                <CloseButton to={`/encounter`}>
+                    <UIIcon path={UI_CANCEL} height={24} width={24} />
+                </CloseButton>
+            </TitleHeader>
+            <ContentContainer>
+                <Content>
+                    <DamageMeter
+                        title={`damage done`}
+                        items={toItems(
+                            (it) => it.damage.total,
+                            (it) => it.dps,
+                            false,
+                        )}
+                        columns={[
+                            {
+                                title: `fights`,
+                                value: (it) => summaryOf(it).encounters,
+                                width: 40,
+                            },
+                            {
+                                title: `deaths`,
+                                value: (it) => summaryOf(it).deaths,
+                                total: true,
+                                width: 40,
+                            },
+                            {
+                                title: `uptime`,
+                                value: (it) => summaryOf(it).uptime,
+                                format: (value) => `${round(value)}%`,
+                            },
+                            {
+                                title: `total`,
+                                value: (it) => it.value,
+                                format: shortenNumber,
+                                total: true,
+                            },
+                            {
+                                title: `dps`,
+                                value: (it) => it.perSecond,
+                                format: (value) => round(value).toLocaleString(),
+                                total: true,
+                            },
+                            {
+                                title: `avg dps`,
+                                value: (it) => summaryOf(it).averageDps,
+                                format: (value) => round(value).toLocaleString(),
+                                total: true,
+                                width: 60,
+                            },
+                        ]}
+                        header
+                        footer
+                    />
+                    <DamageMeter
+                        title={`healing done`}
+                        items={toItems(
+                            (it) => it.healing.total,
+                            (it) => it.hps,
+                            true,
+                        )}
+                        columns={[
+                            {
+                                title: `total`,
+                                value: (it) => it.value,
+                                format: shortenNumber,
+                                total: true,
+                            },
+                            {
+                                title: `hps`,
+                                value: (it) => it.perSecond,
+                                format: (value) => round(value).toLocaleString(),
+                                total: true,
+                            },
+                        ]}
+                        header
+                        footer
+                    />
+                </Content>
+            </ContentContainer>
+        </Container>
+    );
+});
+
+export default EncounterSummaryPage;
+
+/**
+ * Props accepted by the SourcesTooltip component.
+ */
+type SourcesTooltipProps = {
+    /**
+     * The merged damage or healing breakdown for a character.
+     */
+    breakdown: DamageBreakdownData | HealingBreakdownData;
+};
+
+/**
+ * Tooltip which lists a character's biggest sources of damage or healing across every encounter.
+ *
+ * @param props the props accepted by the sources tooltip
+ * @constructor
+ */
+const SourcesTooltip = ({ breakdown }: SourcesTooltipProps) => (
+    <TooltipChart title={`top sources`}>
+        {breakdown.items.slice(0, TOOLTIP_SOURCES).map((it) => (
+            <SourceItem key={`${it.type}-${it.name}`}>
+                <span>{it.name}</span>
+                <span>
+                    {shortenNumber(it.data.total)} (
+                    {round((it.data.total / breakdown.total) * 100, 1)}%)
+                </span>
+            </SourceItem>
+        ))}
+    </TooltipChart>
+);
+
+/**
+ * A container component for the encounter summary page.
+ */
+const Container = styled.div`
+    height: calc(100% - 47px);
+    overflow-y: hidden;
+`;
+
+/**
+ * A styled header component for the summary title.
+ */
+const TitleHeader = styled(Header)`
+    justify-content: space-between;
+`;
+
+/**
+ * Styled div for the summary title text.
+ */
+const TitleText = styled.div`
+    padding: 8px;
+`;
+
+/**
+ * Styled link which closes the summary.
+ */
+const CloseButton = styled(Link)`
+    display: flex;
+    align-items: center;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
+
+/**
+ * Styled content container that handles scrolling
+ */
+const ContentContainer = styled(ScrollableContent)`
+    width: calc(100% - 8px);
+    height: calc(100% - 40px);
+    overflow-y: scroll;
+`;
+
+/**
+ * A styled content div for the summary page.
+ */
+const Content = styled.div`
+    max-width: 1400px;
+    margin: 8px auto;
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+
+    color: ${theme.color.white};
+    font-family: ${theme.font.header};
+`;
+
+/**
+ * Styled div for a single source in the sources tooltip.
+ */
+const SourceItem = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 12px;
+    font-size: 0.9em;
+`;
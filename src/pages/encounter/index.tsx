@@ -1,14 +1,21 @@
 import { observer } from 'mobx-react';
 import styled from 'styled-components';
 import theme, { ScrollableContent } from '../../theme.tsx';
-import { useContext } from 'react';
-import { LogContext } from '../../state/log.ts';
+import { ReactNode, useContext, useEffect } from 'react';
+import { LogContext, LogEncounter } from '../../state/log.ts';
 import { DateTime, Duration } from 'luxon';
 import { Link, Navigate, Route, Routes } from 'react-router-dom';
-import { Encounter } from '@aysi-e/thj-parser-lib';
-import { isArray, last, partition, values } from 'lodash';
+import { isArray, last, partition, uniq, values } from 'lodash';
 import EncounterDetailPage from './encounterdetail.tsx';
+import EncounterComparePage from './encountercompare.tsx';
+import BossProgressionPage from './bossprogression.tsx';
+import EncounterSummaryPage from './encountersummary.tsx';
+import CharacterHistoryPage from './characterhistory.tsx';
 import { Box, Header } from '../../ui/Common.tsx';
+import { SelectionContext } from '../../state/selection.ts';
+import SelectionActions from '../../ui/encounter/SelectionActions.tsx';
+import LiveStatus from '../../ui/encounter/LiveStatus.tsx';
+import StorageError from '../../ui/StorageError.tsx';
 
 /**
  * The encounter index page component.
@@ -20,7 +27,16 @@ import { Box, Header } from '../../ui/Common.tsx';
 const EncounterIndex = observer(() => {
     const log = useContext(LogContext);
 
-    if (log.encounters.length === 0) return <Navigate to={'/'} />;
+    // if the page was reloaded, reopen the log session that was open before the reload.
+    useEffect(() => {
+        log.restore();
+    }, []);
+
+    if (log.encounters.length === 0) {
+        if (log.loading || log.restorable) return <LoadingText>opening saved log...</LoadingText>;
+        if (log.watching) return <LoadingText>waiting for the first encounter...</LoadingText>;
+        return <Navigate to={'/'} />;
+    }
 
     const loggedBy = log.loggedBy || 'unknown';
     const start = log.start
@@ -52,19 +68,37 @@ const EncounterIndex = observer(() => {
                             <strong>{trash.length}</strong> trash encounters)
                         </div>
                         <div>
-                            logged by <strong>{loggedBy}</strong> from <strong>{start}</strong> to{' '}
-                            <strong>{end}</strong>
+                            logged by <strong>{loggedBy}</strong>
+                            {log.files.length > 1 && (
+                                <>
+                                    {' '}
+                                    (<strong>{log.files.length}</strong> log files)
+                                </>
+                            )}{' '}
+                            from <strong>{start}</strong> to <strong>{end}</strong>
                         </div>
                     </HeaderText>
                 </Link>
+                {log.watching && <LiveStatus />}
+                <Routes>
+                    <Route index element={<SelectionActions />} />
+                </Routes>
             </IndexHeader>
+            <StorageError />
             <Routes>
+                <Route path={`compare`} element={<EncounterComparePage />} />
+                <Route path={`summary`} element={<EncounterSummaryPage />} />
+                <Route path={`character/:name`} element={<CharacterHistoryPage />} />
+                <Route path={`boss/:name`} element={<BossProgressionPage />} />
                 <Route path={`:id/*`} element={<EncounterDetailPage />} />
                 <Route
                     index
                     element={
                         <ScrollableContent>
-                            <EncounterList encounters={log.encounters} />
+                            <EncounterList
+                                encounters={log.encounters}
+                                showSources={log.files.length > 1}
+                            />
                         </ScrollableContent>
                     }
                 />
@@ -87,6 +121,16 @@ const Container = styled.div`
     overflow-y: clip;
 `;
 
+/**
+ * Styled div displayed while a saved log session is being opened.
+ */
+const LoadingText = styled.div`
+    padding: 16px;
+    text-align: center;
+    color: ${theme.color.white};
+    font-family: ${theme.font.content};
+`;
+
 /**
  * Header component for the Encounter index page.
  */
@@ -105,18 +149,27 @@ const HeaderText = styled.div`
  * The props accepted by the EncounterList component.
  */
 type Props = {
-    encounters: Encounter[];
+    encounters: LogEncounter[];
+
+    /**
+     * Should we show which player logged each encounter?
+     */
+    showSources?: boolean;
 };
 
 /**
  * An encounter list component which displays each encounter parsed from a combat log.
  */
-const EncounterList = observer(({ encounters }: Props) => {
+const EncounterList = observer(({ encounters, showSources }: Props) => {
     const byZone = groupByZone(encounters);
     return (
         <EncounterListContainer>
             {byZone.map((it, index) => (
-                <EncounterZoneList key={`encounter-zone-${index}`} encounters={it} />
+                <EncounterZoneList
+                    key={`encounter-zone-${index}`}
+                    encounters={it}
+                    showSources={showSources}
+                />
             ))}
         </EncounterListContainer>
     );
@@ -127,12 +180,12 @@ const EncounterList = observer(({ encounters }: Props) => {
  *
  * @param encounters an encounter list
  */
-const groupByZone = (encounters: Encounter[]) => {
+const groupByZone = (encounters: LogEncounter[]) => {
     if (!encounters.length) return [];
-    const result: Encounter[][] = [];
+    const result: LogEncounter[][] = [];
 
     let zone = encounters[0].zone;
-    let current: Encounter[] = [];
+    let current: LogEncounter[] = [];
     encounters.forEach((it) => {
         if (it.zone !== zone) {
             zone = it.zone;
@@ -167,10 +220,10 @@ const EncounterListContainer = styled.div`
 /**
  * An encounter sublist divided by zone name.
  */
-const EncounterZoneList = observer(({ encounters }: Props) => {
-    const groupTrash = (encounters: Encounter[]) => {
-        const result: (Encounter | Encounter[])[] = [];
-        let trash: Encounter[] = [];
+const EncounterZoneList = observer(({ encounters, showSources }: Props) => {
+    const groupTrash = (encounters: LogEncounter[]) => {
+        const result: (LogEncounter | LogEncounter[])[] = [];
+        let trash: LogEncounter[] = [];
         encounters.forEach((it) => {
             if (it.isBoss) {
                 if (trash.length) {
@@ -191,41 +244,66 @@ const EncounterZoneList = observer(({ encounters }: Props) => {
     const start = DateTime.fromMillis(encounters[0].start);
     const end = DateTime.fromMillis(last(encounters)!.end);
 
-    // todo: eventually dont ignore trash
     const combats = groupTrash(encounters);
     const [bosses, trash] = partition(encounters, (it) => it.isBoss);
     // if (!bosses.length) return <></>
     return (
         <Box
             header={
-                <EncounterListHeaderText>{`${zone} (${start.toLocaleString(DateTime.DATETIME_SHORT)} to ${end.toLocaleString(DateTime.DATETIME_SHORT)})`}</EncounterListHeaderText>
+                <EncounterListHeaderText
+                    to={`/encounter/summary?ids=${encounters.map((it) => it.id).join(`,`)}`}
+                    title={`view a summary of every encounter in ${zone}`}
+                >{`${zone} (${start.toLocaleString(DateTime.DATETIME_SHORT)} to ${end.toLocaleString(DateTime.DATETIME_SHORT)})`}</EncounterListHeaderText>
             }
         >
             {combats.map((it, index) => {
                 if (isArray(it))
                     return (
-                        <TrashEncounterGroup key={`trash-encounters-${index}`} encounters={it} />
+                        <TrashEncounterGroup
+                            key={`trash-encounters-${index}`}
+                            encounters={it}
+                            showSources={showSources}
+                        />
                     );
-                return <BossEncounterListItem encounter={it} key={it.id} />;
+                return (
+                    <BossEncounterListItem encounter={it} key={it.id} showSources={showSources} />
+                );
             })}
         </Box>
     );
 });
 
 /**
- * Styled container div for an EncounterZoneList
+ * Styled header link for an EncounterZoneList, which opens a summary of the zone's encounters.
  */
-const EncounterListHeaderText = styled.div`
+const EncounterListHeaderText = styled(Link)`
+    display: block;
     text-align: center;
     padding: 8px;
     width: calc(100% - 16px);
     cursor: pointer;
+
+    &:hover {
+        text-decoration: underline dotted;
+    }
 `;
 
+/**
+ * Props accepted by the encounter list item components.
+ */
+type ListItemProps = {
+    encounter: LogEncounter;
+
+    /**
+     * Should we show which player logged this encounter?
+     */
+    showSources?: boolean;
+};
+
 /**
  * An encounter list item component which displays a single encounter list item.
  */
-const BossEncounterListItem = observer(({ encounter }: { encounter: Encounter }) => {
+const BossEncounterListItem = observer(({ encounter, showSources }: ListItemProps) => {
     const duration = Duration.fromMillis(encounter.duration);
     const enemies = values(encounter.entities)
         .filter((it) => it.isEnemy && it.isBoss)
@@ -233,7 +311,7 @@ const BossEncounterListItem = observer(({ encounter }: { encounter: Encounter })
         .join(', ');
 
     return (
-        <Link to={`${encounter.id}?mode=damage-done`}>
+        <EncounterLink encounter={encounter}>
             <ListItemContainer>
                 <ListItemTime>
                     {DateTime.fromMillis(encounter.start).toLocaleString(DateTime.TIME_SIMPLE)}
@@ -241,11 +319,66 @@ const BossEncounterListItem = observer(({ encounter }: { encounter: Encounter })
                 <ListItemText $failed={encounter.isFailed}>
                     {enemies} ({duration.rescale().toHuman()})
                 </ListItemText>
+                {showSources && <EncounterSources encounter={encounter} />}
+                {encounter.live && <LiveText> (in progress)</LiveText>}
             </ListItemContainer>
-        </Link>
+        </EncounterLink>
     );
 });
 
+/**
+ * Component which links to an encounter's detail page, or selects the encounter if the encounter
+ * list is in selection mode.
+ */
+const EncounterLink = observer(
+    ({ encounter, children }: { encounter: LogEncounter; children: ReactNode }) => {
+        const selection = useContext(SelectionContext);
+        if (!selection.active)
+            return <Link to={`${encounter.id}?mode=damage-done`}>{children}</Link>;
+        return (
+            <SelectableItem
+                $selected={selection.has(encounter.id)}
+                onClick={() => selection.toggle(encounter.id)}
+            >
+                {children}
+            </SelectableItem>
+        );
+    },
+);
+
+/**
+ * Styled div for an encounter list item which can be selected.
+ */
+const SelectableItem = styled.div<{ $selected: boolean }>`
+    opacity: ${(props) => (props.$selected ? 1 : 0.6)};
+    outline: ${(props) => (props.$selected ? `1px solid ${theme.color.secondary}` : `none`)};
+    outline-offset: -1px;
+`;
+
+/**
+ * Component which displays the players who logged an encounter.
+ */
+const EncounterSources = observer(({ encounter }: ListItemProps) => {
+    const names = uniq(encounter.sources.map((it) => it.loggedBy || it.name));
+    return <ListItemSource>{` [${names.join(', ')}]`}</ListItemSource>;
+});
+
+/**
+ * Styled text span for the log sources of an encounter list item.
+ */
+const ListItemSource = styled.span`
+    font-size: 0.8em;
+    color: ${theme.color.mediumGrey};
+`;
+
+/**
+ * Styled text span marking an encounter which is still in progress.
+ */
+const LiveText = styled.span`
+    font-size: 0.8em;
+    color: ${theme.color.secondary};
+`;
+
 /**
  * Styled container div for an encounter list item.
  */
@@ -281,8 +414,9 @@ const ListItemTime = styled.span`
 /**
  * An encounter list item component which displays a number of trash encounters.
  */
-const TrashEncounterGroup = ({ encounters }: { encounters: Encounter[] }) => (
+const TrashEncounterGroup = ({ encounters, showSources }: Props) => (
     <TrashEncounterGroupContainer>
+        {encounters.length > 1 && <TrashSegmentLink encounters={encounters} />}
         {encounters.map((encounter) => {
             const duration = Duration.fromMillis(encounter.duration);
             const enemies = values(encounter.entities)
@@ -297,7 +431,7 @@ const TrashEncounterGroup = ({ encounters }: { encounters: Encounter[] }) => (
             }
 
             return (
-                <Link to={`${encounter.id}?mode=damage-done`} key={encounter.id}>
+                <EncounterLink encounter={encounter} key={encounter.id}>
                     <TrashEncounterListItem>
                         <ListItemTime>
                             {DateTime.fromMillis(encounter.start).toLocaleString(
@@ -307,13 +441,38 @@ const TrashEncounterGroup = ({ encounters }: { encounters: Encounter[] }) => (
                         <TrashItemText $failed={encounter.isFailed}>
                             {enemyNames} ({duration.rescale().toHuman()})
                         </TrashItemText>
+                        {showSources && <EncounterSources encounter={encounter} />}
+                        {encounter.live && <LiveText> (in progress)</LiveText>}
                     </TrashEncounterListItem>
-                </Link>
+                </EncounterLink>
             );
         })}
     </TrashEncounterGroupContainer>
 );
 
+/**
+ * Component which links to a single segment merging every encounter in a trash encounter group,
+ * covering the time spent clearing between bosses.
+ */
+const TrashSegmentLink = observer(({ encounters }: Props) => {
+    const selection = useContext(SelectionContext);
+    if (selection.active) return <></>;
+
+    const first = encounters[0];
+    const end = last(encounters)!;
+    const duration = Duration.fromMillis(end.end - first.start);
+    return (
+        <Link to={`${first.id}-${end.id}?mode=damage-done`}>
+            <TrashEncounterListItem>
+                <TrashSegmentText>
+                    open all {encounters.length} pulls as one segment (
+                    {duration.rescale().toHuman()} of clearing)
+                </TrashSegmentText>
+            </TrashEncounterListItem>
+        </Link>
+    );
+});
+
 /**
  * Container div for the trash encounter group.
  */
@@ -345,3 +504,11 @@ const TrashEncounterListItem = styled.div`
 const TrashItemText = styled.span<{ $failed: boolean }>`
     color: ${(props) => (props.$failed ? theme.color.error : `#d3d7df`)};
 `;
+
+/**
+ * Text span for the trash segment link.
+ */
+const TrashSegmentText = styled.span`
+    color: ${theme.color.secondary};
+    font-style: italic;
+`;
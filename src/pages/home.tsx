@@ -1,13 +1,21 @@
 import { observer } from 'mobx-react';
 import styled from 'styled-components';
-import { useContext, useEffect, useRef } from 'react';
+import { ChangeEvent, useContext, useRef } from 'react';
 import { LogContext } from '../state/log.ts';
 import theme from '../theme.tsx';
 import { IconSelectButton } from '../ui/SelectButton.tsx';
-import { UI_UPLOAD } from '../ui/Icon.tsx';
+import { UI_CANCEL, UI_UPLOAD, UI_WATCH, UIIcon } from '../ui/Icon.tsx';
 import { runInAction } from 'mobx';
+import { every } from 'lodash';
 import { Navigate } from 'react-router-dom';
 import { Box } from '../ui/Common.tsx';
+import RecentLogs from '../ui/RecentLogs.tsx';
+import ParseErrors from '../ui/ParseErrors.tsx';
+import StorageError from '../ui/StorageError.tsx';
+import RangePicker from '../ui/RangePicker.tsx';
+import LineMatchers from '../ui/LineMatchers.tsx';
+import { REPORT_EXTENSION } from '../state/report.ts';
+import { canWatchFiles, pickFileToWatch } from '../util/files.ts';
 
 /**
  * The home page.
@@ -25,61 +33,62 @@ const HomePage = observer(() => {
         buttonRef.current?.click();
     };
 
+    /**
+     * Handle clicking the watch button, asking the user to pick a log file to watch.
+     */
+    const handleWatchClick = () => {
+        pickFileToWatch().then((handle) => handle && log.watchFile(handle));
+    };
+
     /**
      * Handle receiving a file from the file input.
      */
-    const handleFileInput = (event: Event) => {
-        const files = (event.target as HTMLInputElement).files;
+    const handleFileInput = (event: ChangeEvent<HTMLInputElement>) => {
+        const files = event.target.files;
         runInAction(() => {
-            if (files) {
-                for (let i = 0; i < files.length; i++) {
-                    // todo: this doesn't actually work for multiple files because parseFile overrides the log each
-                    //  time
-                    log.parseFile(files[i]);
-                }
-            }
+            if (files) log.selectFiles(Array.from(files));
         });
     };
 
-    /**
-     * Set up an event listener to allow us to read files.
-     */
-    useEffect(() => {
-        if (buttonRef.current) {
-            buttonRef.current.addEventListener(`change`, handleFileInput);
-        }
-
-        return () => {
-            buttonRef.current?.removeEventListener(`change`, handleFileInput);
-        };
-    }, []);
-
-    // have we parsed a log?
-    if (log.progress && log.progress >= 100) {
+    // have we parsed a log? if any files failed, stay here so the user can decide what to do.
+    if (log.progress && log.progress >= 100 && !log.errors.length) {
         return <Navigate to={`encounter`} />;
     }
 
-    // if we're currently uploading, show a progress bar. if we aren't, show the file browser.
-    const upload =
-        log.progress !== undefined && log.progress < 100 ? (
-            <ProgressBar $progress={log.progress}>parsing log ({log.progress}%)</ProgressBar>
-        ) : (
-            <>
+    // if we're currently uploading, show a progress bar. if we aren't, show the file browser. files
+    // can fail before they report any progress, so we also stop once every file has finished.
+    const parsing =
+        log.progress !== undefined &&
+        log.progress < 100 &&
+        !(log.errors.length && every(log.files, (it) => it.done));
+    const upload = parsing ? (
+        <ProgressBar $progress={log.progress}>
+            parsing log ({log.progress}%)
+            <CancelButton onClick={() => log.cancel()} title={`cancel`}>
+                <UIIcon path={UI_CANCEL} height={18} width={18} />
+            </CancelButton>
+        </ProgressBar>
+    ) : (
+        <>
+            <StyledUploadButton icon={UI_UPLOAD} text={`open file browser`} onClick={handleClick} />
+            {canWatchFiles() && (
                 <StyledUploadButton
-                    icon={UI_UPLOAD}
-                    text={`open file browser`}
-                    onClick={handleClick}
-                />
-                <input
-                    type='file'
-                    id='fileElem'
-                    multiple
-                    accept='text/plain'
-                    style={{ display: `none` }}
-                    ref={buttonRef}
+                    icon={UI_WATCH}
+                    text={`watch a log file while you play`}
+                    onClick={handleWatchClick}
                 />
-            </>
-        );
+            )}
+            <input
+                type='file'
+                id='fileElem'
+                multiple
+                accept={`text/plain,${REPORT_EXTENSION}`}
+                style={{ display: `none` }}
+                ref={buttonRef}
+                onChange={handleFileInput}
+            />
+        </>
+    );
 
     // we have not parsed a log.
     return (
@@ -88,16 +97,29 @@ const HomePage = observer(() => {
                 <Box header={<HeaderText>thj log parser (local)</HeaderText>}>
                     <ContentText>
                         <div>
-                            drag and drop a log file to view details about your combat encounters
+                            drag and drop one or more log files (or a shared report) to view details
+                            about your combat encounters
                         </div>
                         <div>- no data is sent to a server (this client is open source)</div>
                         <div>
-                            - the report is not sharable and only persists for the duration of your
-                            browser session
+                            - the report is only saved in your browser until you delete it, but can
+                            be exported to share with others
                         </div>
                     </ContentText>
                 </Box>
-                {upload}
+                {log.loading ? (
+                    <ProgressBar $progress={0}>opening saved log</ProgressBar>
+                ) : log.scanning ? (
+                    <ProgressBar $progress={0}>reading log files</ProgressBar>
+                ) : log.pending.length ? (
+                    <RangePicker />
+                ) : (
+                    upload
+                )}
+                <ParseErrors />
+                <StorageError />
+                <RecentLogs />
+                <LineMatchers />
             </Content>
             <Footer>
                 {
@@ -196,4 +218,26 @@ const ProgressBar = styled.div<{ $progress: number }>`
     border: 1px solid ${theme.color.secondary};
     text-align: center;
     line-height: 30px;
+    position: relative;
+`;
+
+/**
+ * A button which cancels parsing, displayed on the progress bar.
+ */
+const CancelButton = styled.button`
+    position: absolute;
+    top: 0;
+    right: 0;
+    height: 100%;
+    padding: 0 12px;
+    display: flex;
+    align-items: center;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
 `;
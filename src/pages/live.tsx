@@ -0,0 +1,179 @@
+import { observer } from 'mobx-react';
+import styled, { createGlobalStyle } from 'styled-components';
+import { useContext } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { last } from 'lodash';
+import { LogContext } from '../state/log.ts';
+import EncounterState, { EncounterContext, useEncounter } from '../state/encounter.ts';
+import theme from '../theme.tsx';
+import {
+    OverallDamageDealtChart,
+    OverallHealingDoneChart,
+} from '../ui/encounter/charts/ByCharacterChart.tsx';
+import { canWatchFiles, pickFileToWatch } from '../util/files.ts';
+
+/**
+ * The number of seconds counted by the live meters, unless another window is chosen.
+ */
+const DEFAULT_WINDOW = 30;
+
+/**
+ * The windows which can be chosen for the live meters, in seconds. Zero counts the whole encounter.
+ */
+const WINDOWS = [10, 30, 60, 0];
+
+/**
+ * The live meter page.
+ *
+ * A compact page which shows damage and healing meters for the most recent encounter in the log
+ * file being watched, meant to be kept open on a second monitor or used as an OBS browser source.
+ *
+ * Supports the `window` search parameter (the number of seconds counted by the meters, or zero for
+ * the whole encounter) and the `transparent` search parameter (which removes the page background).
+ */
+const LivePage = observer(() => {
+    const log = useContext(LogContext);
+    const [params, setParams] = useSearchParams();
+    const seconds = parseInt(params.get(`window`) ?? `${DEFAULT_WINDOW}`) || undefined;
+    const encounter = last(log.encounters);
+
+    /**
+     * Handle clicking the watch button, asking the user to pick a log file to watch.
+     */
+    const handleWatchClick = () => {
+        pickFileToWatch().then((handle) => handle && log.watchFile(handle));
+    };
+
+    /**
+     * Choose the number of seconds counted by the meters.
+     *
+     * @param value the number of seconds, or zero for the whole encounter
+     */
+    const handleWindow = (value: number) => {
+        params.set(`window`, `${value}`);
+        setParams(params);
+    };
+
+    let content;
+    if (encounter) {
+        content = (
+            <EncounterContext.Provider value={new EncounterState(encounter)}>
+                <LiveMeters window={seconds} />
+            </EncounterContext.Provider>
+        );
+    } else if (log.watching) {
+        content = <LiveText>waiting for the first encounter...</LiveText>;
+    } else if (canWatchFiles()) {
+        content = <LiveButton onClick={handleWatchClick}>watch a log file</LiveButton>;
+    } else {
+        content = <LiveText>this browser can't watch log files</LiveText>;
+    }
+
+    return (
+        <Container>
+            {params.has(`transparent`) && <TransparentStyle />}
+            {content}
+            <LiveControls>
+                {WINDOWS.map((it) => (
+                    <LiveButton
+                        key={it}
+                        $selected={(seconds ?? 0) === it}
+                        onClick={() => handleWindow(it)}
+                    >
+                        {it ? `${it}s` : `all`}
+                    </LiveButton>
+                ))}
+                {log.watching && (
+                    <LiveButton onClick={() => log.stopWatching()}>stop watching</LiveButton>
+                )}
+            </LiveControls>
+        </Container>
+    );
+});
+
+export default LivePage;
+
+/**
+ * Component which renders the live damage and healing meters for the current encounter.
+ *
+ * @param window the number of seconds counted by the meters, or undefined for the whole encounter
+ * @constructor
+ */
+const LiveMeters = observer(({ window }: { window: number | undefined }) => {
+    const encounter = useEncounter();
+    const span = window ? `last ${window}s` : encounter.duration.rescale().toHuman();
+    return (
+        <>
+            <OverallDamageDealtChart
+                title={`${encounter.title || `unknown`} (${span})`}
+                entities={encounter.friends}
+                window={window}
+                customize={() => ({ background: theme.color.friend })}
+            />
+            <OverallHealingDoneChart
+                title={`healing done (${span})`}
+                entities={encounter.friends}
+                window={window}
+                customize={() => ({ background: theme.color.friendHeal })}
+            />
+        </>
+    );
+});
+
+/**
+ * A global style which removes the page background, so the page can be layered over a game
+ * capture.
+ */
+const TransparentStyle = createGlobalStyle`
+    html body {
+        background: transparent;
+    }
+`;
+
+/**
+ * A styled container div.
+ */
+const Container = styled.div`
+    padding: 4px;
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    font-family: ${theme.font.content};
+    color: ${theme.color.white};
+`;
+
+/**
+ * Styled text shown when there is no encounter to display.
+ */
+const LiveText = styled.div`
+    padding: 8px;
+    text-align: center;
+`;
+
+/**
+ * Styled div containing the live meter controls.
+ */
+const LiveControls = styled.div`
+    display: flex;
+    justify-content: flex-end;
+    gap: 4px;
+    font-size: 0.8em;
+    opacity: 0.5;
+
+    &:hover {
+        opacity: 1;
+    }
+`;
+
+/**
+ * Styled button for the live meter controls.
+ */
+const LiveButton = styled.button<{ $selected?: boolean }>`
+    padding: 2px 6px;
+    color: ${theme.color.white};
+    background: ${(props) => (props.$selected ? theme.color.selected : theme.color.transparentGrey)};
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+`;
@@ -0,0 +1,548 @@
+// module containing functions which combine encounters, either parsed from different log files or
+// one after another in the same log.
+
+import {
+    DamageShieldDamage,
+    Encounter,
+    Entity,
+    HandlerEvent,
+    Healing,
+    MeleeDamage,
+    SpellDamage,
+} from '@aysi-e/thj-parser-lib';
+import {
+    forEach,
+    intersection,
+    invert,
+    maxBy,
+    range,
+    sortBy,
+    sumBy,
+    toPairs,
+    values,
+} from 'lodash';
+import { nanoid } from 'nanoid';
+
+/**
+ * Type representing a parsed encounter which makes up part of a combined encounter.
+ */
+export type EncounterPart = {
+    /**
+     * The parsed encounter.
+     */
+    encounter: Encounter;
+
+    /**
+     * A map of entity ids in the combined encounter to entity ids in the parsed encounter, for each
+     * entity in the parsed encounter.
+     */
+    entities: Record<string, string>;
+
+    /**
+     * The damage which is read from this part, as a map of combined source ids to the combined ids
+     * of their targets, or undefined if all the damage in this part is read.
+     */
+    damage?: Record<string, string[]>;
+
+    /**
+     * The healing which is read from this part, as a map of combined source ids to the combined ids
+     * of their targets, or undefined if all the healing in this part is read.
+     */
+    healing?: Record<string, string[]>;
+};
+
+/**
+ * Type representing an encounter which was combined from several parsed encounters.
+ */
+export type CombinedEncounter = Encounter & {
+    /**
+     * The parsed encounters that make up this encounter.
+     */
+    parts: EncounterPart[];
+};
+
+/**
+ * Is the provided encounter a combined encounter?
+ *
+ * @param encounter the encounter
+ */
+export const isCombined = (encounter: Encounter): encounter is CombinedEncounter =>
+    `parts` in encounter;
+
+/**
+ * The damage and healing categories tracked for each entity.
+ */
+const CATEGORIES = [`ds`, `melee`, `spell`, `heal`] as const;
+
+/**
+ * Type representing a damage or healing category.
+ */
+type Category = (typeof CATEGORIES)[number];
+
+/**
+ * Type representing damage or healing data for a single category.
+ */
+type CategoryData = DamageShieldDamage | MeleeDamage | SpellDamage | Healing;
+
+/**
+ * Type representing damage or healing data for a single category, keyed by entity id and type.
+ */
+type CategoryMap = Record<string, Record<string, CategoryData>>;
+
+/**
+ * Type representing the kind of data shown in a per-second series.
+ */
+export type SeriesKind = `damage` | `healing`;
+
+/**
+ * Get the kind of per-second series which includes a damage or healing category.
+ *
+ * @param category the data category
+ */
+const toSeriesKind = (category: Category): SeriesKind =>
+    category === `heal` ? `healing` : `damage`;
+
+/**
+ * Get the names of the (known) enemies participating in an encounter.
+ *
+ * @param encounter the encounter
+ */
+const enemyNames = (encounter: Encounter) =>
+    values(encounter.entities)
+        .filter((it) => it.isEnemy && it.name !== `Unknown`)
+        .map((it) => it.name);
+
+/**
+ * Do two encounters (parsed from different log files) describe the same fight?
+ *
+ * Encounters are considered the same if they took place in the same zone, overlap in time and
+ * share at least one enemy.
+ *
+ * @param a the first encounter
+ * @param b the second encounter
+ */
+export const isSameEncounter = (a: Encounter, b: Encounter) =>
+    a.zone === b.zone &&
+    a.start <= b.end &&
+    b.start <= a.end &&
+    intersection(enemyNames(a), enemyNames(b)).length > 0;
+
+/**
+ * Get a key identifying an entity across encounters.
+ *
+ * @param entity the entity
+ */
+const entityKey = (entity: Entity) => `${entity.isEnemy ? `enemy` : `friend`}-${entity.name}`;
+
+/**
+ * Assign each distinct entity in several encounters an id in the combined encounter.
+ *
+ * @param encounters the encounters being combined
+ * @returns a map of entity ids to combined entity ids for each encounter
+ */
+const toCombinedIds = (encounters: Encounter[]) => {
+    const combinedIds: Record<string, string> = {};
+    return encounters.map((encounter) => {
+        const ids: Record<string, string> = {};
+        values(encounter.entities).forEach((entity) => {
+            const key = entityKey(entity);
+            if (!combinedIds[key]) combinedIds[key] = nanoid();
+            ids[entity.id] = combinedIds[key];
+        });
+        return ids;
+    });
+};
+
+/**
+ * Get the total damage and healing dealt by an entity.
+ *
+ * @param entity the entity
+ */
+const outgoingTotal = (entity: Entity) =>
+    sumBy(CATEGORIES, (category) =>
+        sumBy(values(entity.outgoing[category]), (byType) =>
+            sumBy(values(byType), (it: CategoryData) => it.total),
+        ),
+    );
+
+/**
+ * Copy damage or healing data, associating the copy with another entity id.
+ *
+ * @param category the data category
+ * @param data the data to copy
+ * @param entityId the entity id to associate the copy with
+ */
+const copyData = (category: Category, data: CategoryData, entityId: string): CategoryData => {
+    switch (category) {
+        case 'ds':
+            const ds = new DamageShieldDamage((data as DamageShieldDamage).effect, entityId);
+            ds.addFrom(data as DamageShieldDamage);
+            return ds;
+        case 'melee':
+            const melee = new MeleeDamage((data as MeleeDamage).type, entityId);
+            melee.addFrom(data as MeleeDamage);
+            return melee;
+        case 'spell':
+            const spell = new SpellDamage((data as SpellDamage).name, entityId);
+            spell.addFrom(data as SpellDamage);
+            return spell;
+        case 'heal':
+            const heal = new Healing((data as Healing).name, entityId, (data as Healing).isAbsorb);
+            heal.addFrom(data as Healing);
+            return heal;
+    }
+};
+
+/**
+ * Add damage or healing data to existing data of the same category.
+ *
+ * @param category the data category
+ * @param to the data to add to
+ * @param from the data to add
+ */
+const addData = (category: Category, to: CategoryData, from: CategoryData) => {
+    switch (category) {
+        case 'ds':
+            return (to as DamageShieldDamage).addFrom(from as DamageShieldDamage);
+        case 'melee':
+            return (to as MeleeDamage).addFrom(from as MeleeDamage);
+        case 'spell':
+            return (to as SpellDamage).addFrom(from as SpellDamage);
+        case 'heal':
+            return (to as Healing).addFrom(from as Healing);
+    }
+};
+
+/**
+ * Replace the entity ids in an event using the provided id map.
+ *
+ * @param event the event
+ * @param ids a map of old entity ids to new entity ids
+ */
+const remapEvent = (event: HandlerEvent, ids: Record<string, string>): HandlerEvent => {
+    switch (event.type) {
+        case 'zone':
+            return event;
+        case 'death':
+            return { ...event, killedId: ids[event.killedId], killerId: ids[event.killerId] };
+        default:
+            return { ...event, sourceId: ids[event.sourceId], targetId: ids[event.targetId] };
+    }
+};
+
+/**
+ * Combine the warnings generated while parsing several encounters.
+ *
+ * @param encounters the encounters
+ */
+const mergeWarnings = (encounters: Encounter[]) => {
+    const warnings: Encounter['warnings'] = {};
+    encounters.forEach((encounter) =>
+        forEach(encounter.warnings, (warning, key) => {
+            if (warnings[key])
+                warnings[key] = { ...warning, count: warnings[key].count + warning.count };
+            else warnings[key] = { ...warning };
+        }),
+    );
+    return warnings;
+};
+
+/**
+ * Merge several encounters which describe the same fight from different perspectives (log files)
+ * into a single encounter.
+ *
+ * Each log file only sees part of what happened during a fight, and the parts that they see
+ * overlap. To avoid counting the same damage twice, damage and healing between each pair of
+ * entities is taken from whichever log file saw the most of it, and events are only included as
+ * many times as they appear in any single log file.
+ *
+ * @param encounters the encounters to merge
+ */
+export const mergePerspectives = (encounters: Encounter[]): CombinedEncounter => {
+    const idMaps = toCombinedIds(encounters);
+
+    // each entity's details are read from the perspective which saw it do the most.
+    const perspectives: Record<string, { entity: Entity; total: number }> = {};
+    encounters.forEach((encounter, index) =>
+        values(encounter.entities).forEach((entity) => {
+            const id = idMaps[index][entity.id];
+            const total = outgoingTotal(entity);
+            if (!perspectives[id] || perspectives[id].total < total)
+                perspectives[id] = { entity, total };
+        }),
+    );
+
+    const entities: Record<string, Entity> = {};
+    forEach(perspectives, ({ entity }, id) => {
+        const owner = encounters
+            .map((encounter, i) => {
+                const it = values(encounter.entities).find((e) => idMaps[i][e.id] === id);
+                return it?.owner ? idMaps[i][it.owner] : undefined;
+            })
+            .find((it) => it !== undefined);
+        entities[id] = {
+            ...entity,
+            id,
+            owner,
+            incoming: { ...entity.incoming, ds: {}, melee: {}, spell: {}, heal: {} },
+            outgoing: { ...entity.outgoing, ds: {}, melee: {}, spell: {}, heal: {} },
+        };
+    });
+
+    // for each source and target, find the perspective which saw the most damage (or healing). all
+    // the damage between the two is read from that perspective, so that the meters and per-second
+    // series agree.
+    const best: Record<
+        string,
+        {
+            index: number;
+            total: number;
+            data: Partial<Record<Category, Record<string, CategoryData>>>;
+        }
+    > = {};
+    encounters.forEach((encounter, index) =>
+        values(encounter.entities).forEach((entity) => {
+            const totals: typeof best = {};
+            CATEGORIES.forEach((category) =>
+                forEach(entity.outgoing[category], (byType, targetId) => {
+                    const source = idMaps[index][entity.id];
+                    const target = idMaps[index][targetId];
+                    if (!source || !target) return;
+                    const key = `${toSeriesKind(category)}:${source}:${target}`;
+                    totals[key] ??= { index, total: 0, data: {} };
+                    totals[key].total += sumBy(values(byType), (it: CategoryData) => it.total);
+                    totals[key].data[category] = byType;
+                }),
+            );
+            forEach(totals, (it, key) => {
+                if (!best[key] || best[key].total < it.total) best[key] = it;
+            });
+        }),
+    );
+
+    const pairs = encounters.map(() => ({
+        damage: {} as Record<string, string[]>,
+        healing: {} as Record<string, string[]>,
+    }));
+    forEach(best, ({ index, data }, key) => {
+        const [kind, source, target] = key.split(`:`) as [SeriesKind, string, string];
+        (pairs[index][kind][source] ??= []).push(target);
+        forEach(data, (byType, category) => {
+            const outgoing: Record<string, CategoryData> = {};
+            const incoming: Record<string, CategoryData> = {};
+            forEach(byType, (it, type) => {
+                outgoing[type] = copyData(category as Category, it, target);
+                incoming[type] = copyData(category as Category, it, source);
+            });
+            (entities[source].outgoing[category as Category] as CategoryMap)[target] = outgoing;
+            (entities[target].incoming[category as Category] as CategoryMap)[source] = incoming;
+        });
+    });
+
+    // include each event as many times as it appears in any single log file.
+    const emitted: Record<string, number> = {};
+    const events: HandlerEvent[] = [];
+    encounters.forEach((encounter, index) => {
+        const seen: Record<string, number> = {};
+        encounter.events.forEach((event) => {
+            const remapped = remapEvent(event, idMaps[index]);
+            const key = JSON.stringify(remapped);
+            seen[key] = (seen[key] ?? 0) + 1;
+            if (seen[key] > (emitted[key] ?? 0)) {
+                emitted[key] = seen[key];
+                events.push(remapped);
+            }
+        });
+    });
+
+    const primary = maxBy(encounters, (it) => it.events.length)!;
+    const start = Math.min(...encounters.map((it) => it.start));
+    const end = Math.max(...encounters.map((it) => it.end));
+    return {
+        ...primary,
+        start,
+        end,
+        duration: end - start,
+        isBoss: encounters.some((it) => it.isBoss),
+        isFailed: encounters.every((it) => it.isFailed),
+        entities,
+        events: sortBy(events, (it) => it.timestamp),
+        warnings: mergeWarnings(encounters),
+        parts: encounters.map((encounter, index) => ({
+            encounter,
+            entities: invert(idMaps[index]),
+            ...pairs[index],
+        })),
+    };
+};
+
+/**
+ * Merge several consecutive encounters (such as the trash pulls between two bosses) into a single
+ * segment covering all of them.
+ *
+ * Unlike merging perspectives, each encounter describes a different fight, so the damage, healing
+ * and events of every encounter are added together. Entities are matched across encounters by
+ * name. The segment lasts from the start of the first encounter to the end of the last, including
+ * the time spent between pulls.
+ *
+ * @param encounters the encounters to merge, in time order
+ */
+export const mergeSegment = (encounters: Encounter[]): CombinedEncounter => {
+    const idMaps = toCombinedIds(encounters);
+    const entities: Record<string, Entity> = {};
+
+    encounters.forEach((encounter, index) =>
+        values(encounter.entities).forEach((entity) => {
+            const id = idMaps[index][entity.id];
+            if (entities[id]) {
+                entities[id].owner ??= entity.owner && idMaps[index][entity.owner];
+                return;
+            }
+            entities[id] = {
+                ...entity,
+                id,
+                owner: entity.owner && idMaps[index][entity.owner],
+                incoming: { ...entity.incoming, ds: {}, melee: {}, spell: {}, heal: {} },
+                outgoing: { ...entity.outgoing, ds: {}, melee: {}, spell: {}, heal: {} },
+            };
+        }),
+    );
+
+    // add up the damage and healing between each pair of entities in every encounter.
+    encounters.forEach((encounter, index) =>
+        values(encounter.entities).forEach((entity) =>
+            CATEGORIES.forEach((category) =>
+                forEach(entity.outgoing[category], (byType, targetId) => {
+                    const source = idMaps[index][entity.id];
+                    const target = idMaps[index][targetId];
+                    if (!source || !target) return;
+                    const outgoing = ((entities[source].outgoing[category] as CategoryMap)[
+                        target
+                    ] ??= {});
+                    const incoming = ((entities[target].incoming[category] as CategoryMap)[
+                        source
+                    ] ??= {});
+                    forEach(byType, (it: CategoryData, type) => {
+                        if (outgoing[type]) {
+                            addData(category, outgoing[type], it);
+                            addData(category, incoming[type], it);
+                        } else {
+                            outgoing[type] = copyData(category, it, target);
+                            incoming[type] = copyData(category, it, source);
+                        }
+                    });
+                }),
+            ),
+        ),
+    );
+
+    const first = encounters[0];
+    const end = Math.max(...encounters.map((it) => it.end));
+    return {
+        ...first,
+        end,
+        duration: end - first.start,
+        isBoss: encounters.some((it) => it.isBoss),
+        isFailed: encounters.every((it) => it.isFailed),
+        entities,
+        events: sortBy(
+            encounters.flatMap((encounter, index) =>
+                encounter.events.map((event) => remapEvent(event, idMaps[index])),
+            ),
+            (it) => it.timestamp,
+        ),
+        warnings: mergeWarnings(encounters),
+        parts: encounters.map((encounter, index) => ({
+            encounter,
+            entities: invert(idMaps[index]),
+        })),
+    };
+};
+
+/**
+ * Map combined entity ids to the entity ids used by a part of a combined encounter.
+ *
+ * @param part the encounter part
+ * @param ids the combined entity ids
+ */
+const toPartIds = (part: EncounterPart, ids: string[]) =>
+    ids.map((it) => part.entities[it]).filter((it) => it !== undefined);
+
+/**
+ * Type representing a function which returns per-second data for a parsed encounter.
+ */
+type SeriesData = (
+    encounter: Encounter,
+    sources?: string[],
+    targets?: string[],
+) => { time: number; value: number }[];
+
+/**
+ * Get per-second data from a part of a combined encounter, using the entity ids of the part.
+ *
+ * Parts may themselves be combined encounters (such as when a segment includes an encounter which
+ * was merged from several log files), in which case the data is combined from their parts.
+ *
+ * @param part the encounter part
+ * @param sources the combined ids of the source entities to include, or undefined for all sources
+ * @param targets the combined ids of the target entities to include, or undefined for all targets
+ * @param kind the kind of data in the series
+ * @param toData function which returns per-second data for a parsed encounter
+ */
+const partSeries = (
+    part: EncounterPart,
+    sources: string[] | undefined,
+    targets: string[] | undefined,
+    kind: SeriesKind,
+    toData: SeriesData,
+) => {
+    const partSources = sources && toPartIds(part, sources);
+    const partTargets = targets && toPartIds(part, targets);
+    if (partSources?.length === 0 || partTargets?.length === 0) return [];
+    return isCombined(part.encounter)
+        ? combineSeries(part.encounter, partSources, partTargets, kind, toData)
+        : toData(part.encounter, partSources, partTargets);
+};
+
+/**
+ * Combine per-second data (such as DPS or HPS) from each part of a combined encounter into a
+ * single series covering the whole encounter.
+ *
+ * If only some of the damage (or healing) in a part is read from it, only that damage is included,
+ * so the series matches the totals of the combined encounter.
+ *
+ * @param encounter the combined encounter
+ * @param sources the combined ids of the source entities to include, or undefined for all sources
+ * @param targets the combined ids of the target entities to include, or undefined for all targets
+ * @param kind the kind of data in the series
+ * @param toData function which returns per-second data for a parsed encounter
+ */
+export const combineSeries = (
+    encounter: CombinedEncounter,
+    sources: string[] | undefined,
+    targets: string[] | undefined,
+    kind: SeriesKind,
+    toData: SeriesData,
+): { time: number; value: number }[] => {
+    const result: number[] = [];
+    encounter.parts.forEach((part: EncounterPart) => {
+        const pairs = part[kind];
+        const series = pairs
+            ? toPairs(pairs)
+                  .filter(([source]) => !sources || sources.includes(source))
+                  .map(
+                      ([source, to]) => [source, targets ? intersection(to, targets) : to] as const,
+                  )
+                  .filter(([, to]) => to.length)
+                  .map(([source, to]) => partSeries(part, [source], to, kind, toData))
+            : [partSeries(part, sources, targets, kind, toData)];
+
+        const offset = Math.round((part.encounter.start - encounter.start) / 1000);
+        series.flat().forEach((it) => {
+            const time = it.time + offset;
+            result[time] = (result[time] ?? 0) + it.value;
+        });
+    });
+
+    return range(result.length).map((time) => ({ time, value: result[time] ?? 0 }));
+};
@@ -0,0 +1,211 @@
+// module containing functions which read lines (and their timestamps) from log files.
+
+/**
+ * The number of lines to read from a log file before handing them to the parser.
+ */
+export const LINE_BATCH_SIZE = 10000;
+
+/**
+ * Regular expression which matches the timestamp at the start of a log line, for example:
+ * `[Wed Jan 15 20:31:45 2025]`.
+ */
+const TIMESTAMP_PARSER = /^\[\w{3} (\w{3}) +(\d{1,2}) (\d{2}):(\d{2}):(\d{2}) (\d{4})]/;
+
+/**
+ * The month abbreviations used in log timestamps, in order.
+ */
+const MONTHS = [`Jan`, `Feb`, `Mar`, `Apr`, `May`, `Jun`, `Jul`, `Aug`, `Sep`, `Oct`, `Nov`, `Dec`];
+
+/**
+ * The number of bytes to read from the start and end of a log file when scanning its time range.
+ */
+const SCAN_SIZE = 64 * 1024;
+
+/**
+ * The byte which ends each line in a log file.
+ */
+const NEWLINE = 0x0a;
+
+/**
+ * Type representing a range of time, as timestamps.
+ */
+export type TimeRange = {
+    /**
+     * The start of the range, or undefined if the range has no start.
+     */
+    from: number | undefined;
+
+    /**
+     * The end of the range, or undefined if the range has no end.
+     */
+    to: number | undefined;
+};
+
+/**
+ * Type representing a range of bytes within a log file.
+ */
+export type ByteRange = {
+    /**
+     * The offset of the first byte in the range.
+     */
+    from: number;
+
+    /**
+     * The offset of the byte after the last byte in the range.
+     */
+    to: number;
+};
+
+/**
+ * Type representing a batch of lines read from a log file.
+ */
+export type LineBatch = {
+    /**
+     * The lines read from the log file.
+     */
+    lines: string[];
+
+    /**
+     * The total number of bytes in the complete lines read from the log file so far, which is where
+     * the next batch of lines starts. If an incomplete last line was left out of the final batch,
+     * its bytes are not counted.
+     */
+    bytes: number;
+};
+
+/**
+ * Read the timestamp from the start of a log line.
+ *
+ * Returns undefined if the line doesn't start with a timestamp.
+ *
+ * @param line the log line
+ */
+export const parseTimestamp = (line: string): number | undefined => {
+    const result = TIMESTAMP_PARSER.exec(line);
+    if (!result) return undefined;
+    const [, month, day, hour, minute, second, year] = result;
+    return new Date(
+        parseInt(year),
+        MONTHS.indexOf(month),
+        parseInt(day),
+        parseInt(hour),
+        parseInt(minute),
+        parseInt(second),
+    ).getTime();
+};
+
+/**
+ * Find the timestamp of the first line with a timestamp in a list of log lines.
+ *
+ * @param lines the log lines
+ */
+export const firstTimestamp = (lines: string[]) => {
+    for (const line of lines) {
+        const timestamp = parseTimestamp(line);
+        if (timestamp !== undefined) return timestamp;
+    }
+    return undefined;
+};
+
+/**
+ * Find the timestamp of the last line with a timestamp in a list of log lines.
+ *
+ * @param lines the log lines
+ */
+export const lastTimestamp = (lines: string[]) => {
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const timestamp = parseTimestamp(lines[i]);
+        if (timestamp !== undefined) return timestamp;
+    }
+    return undefined;
+};
+
+/**
+ * Is the provided timestamp within a time range?
+ *
+ * @param timestamp the timestamp
+ * @param range the time range
+ */
+export const isInRange = (timestamp: number, { from, to }: TimeRange) =>
+    (from === undefined || timestamp >= from) && (to === undefined || timestamp <= to);
+
+/**
+ * Read the time range covered by a log file, using only the lines at the start and end of the file.
+ *
+ * @param file the log file
+ */
+export const scanTimeRange = async (file: Blob): Promise<TimeRange> => {
+    const [head, tail] = await Promise.all([
+        file.slice(0, SCAN_SIZE).text(),
+        file.slice(Math.max(0, file.size - SCAN_SIZE)).text(),
+    ]);
+    return {
+        from: firstTimestamp(head.split(/\r?\n/)),
+        to: lastTimestamp(tail.split(/\r?\n/)),
+    };
+};
+
+/**
+ * Read a log file in chunks, yielding batches of complete lines.
+ *
+ * Only one chunk (and one batch of lines) is held in memory at a time, so log files of any size
+ * can be read.
+ *
+ * @param file the log file
+ * @param batchSize the number of lines to include in each batch
+ * @param partial should a last line without a line ending be included? a log file which is still
+ * being written may end part way through a line.
+ */
+export async function* readLines(
+    file: Blob,
+    batchSize = LINE_BATCH_SIZE,
+    partial = true,
+): AsyncGenerator<LineBatch> {
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder();
+    let bytes = 0;
+    let remainder = new Uint8Array(0);
+    let lines: string[] = [];
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // only complete lines are decoded, so we always know exactly how many bytes they took up in
+        // the file, even if a character is split between chunks or some bytes aren't valid text.
+        const chunk = concatBytes(remainder, value);
+        const end = chunk.lastIndexOf(NEWLINE) + 1;
+        remainder = chunk.slice(end);
+        if (!end) continue;
+
+        bytes += end;
+        const split = decoder.decode(chunk.subarray(0, end)).split(/\r?\n/);
+        split.pop();
+        lines = lines.concat(split);
+
+        if (lines.length >= batchSize) {
+            yield { lines, bytes };
+            lines = [];
+        }
+    }
+
+    if (partial && remainder.byteLength) {
+        lines.push(decoder.decode(remainder));
+        bytes += remainder.byteLength;
+    }
+    yield { lines, bytes };
+}
+
+/**
+ * Join two arrays of bytes together.
+ *
+ * @param first the first array of bytes
+ * @param second the second array of bytes
+ */
+const concatBytes = (first: Uint8Array, second: Uint8Array) => {
+    if (!first.byteLength) return second;
+    const result = new Uint8Array(first.byteLength + second.byteLength);
+    result.set(first);
+    result.set(second, first.byteLength);
+    return result;
+};
@@ -0,0 +1,125 @@
+// module containing user-defined line matchers, which turn log lines the parser doesn't understand
+// into custom events.
+
+import { Encounter } from '@aysi-e/thj-parser-lib';
+import { parseTimestamp } from './lines.ts';
+
+/**
+ * Type representing a user-defined line matcher.
+ */
+export type LineMatcher = {
+    /**
+     * The type of custom event created for each matching line, for example `emote`.
+     */
+    type: string;
+
+    /**
+     * The regular expression (as a string) which is tested against the text of each log line, not
+     * including its timestamp.
+     */
+    pattern: string;
+};
+
+/**
+ * Type representing an event created by a user-defined line matcher.
+ */
+export type CustomEvent = {
+    /**
+     * This is a custom event.
+     */
+    type: 'custom';
+
+    /**
+     * The type of the matcher which created this event.
+     */
+    name: string;
+
+    /**
+     * The timestamp of the matching line.
+     */
+    timestamp: number;
+
+    /**
+     * The text of the matching line, not including its timestamp.
+     */
+    text: string;
+};
+
+/**
+ * Type representing a line matcher with its regular expression compiled.
+ */
+type CompiledMatcher = {
+    /**
+     * The type of custom event created for each matching line.
+     */
+    type: string;
+
+    /**
+     * The compiled regular expression.
+     */
+    regex: RegExp;
+};
+
+/**
+ * The text at the start of each log line which contains its timestamp, for example
+ * `[Wed Jan 15 20:31:45 2025] `.
+ */
+const TIMESTAMP_PREFIX = /^\[[^\]]*] /;
+
+/**
+ * Is the provided string a valid regular expression?
+ *
+ * @param pattern the regular expression, as a string
+ */
+export const isValidPattern = (pattern: string) => {
+    try {
+        new RegExp(pattern);
+        return pattern.length > 0;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Compile a list of line matchers, skipping any with an invalid regular expression.
+ *
+ * @param matchers the line matchers
+ */
+export const compileMatchers = (matchers: LineMatcher[]): CompiledMatcher[] =>
+    matchers
+        .filter((it) => isValidPattern(it.pattern))
+        .map((it) => ({ type: it.type, regex: new RegExp(it.pattern) }));
+
+/**
+ * Run each line matcher against a list of log lines, returning a custom event for each match.
+ *
+ * @param lines the log lines
+ * @param matchers the compiled line matchers
+ */
+export const matchLines = (lines: string[], matchers: CompiledMatcher[]): CustomEvent[] => {
+    if (!matchers.length) return [];
+    const result: CustomEvent[] = [];
+    lines.forEach((line) => {
+        const timestamp = parseTimestamp(line);
+        if (timestamp === undefined) return;
+        const text = line.replace(TIMESTAMP_PREFIX, ``);
+        matchers.forEach((it) => {
+            if (it.regex.test(text))
+                result.push({ type: 'custom', name: it.type, timestamp, text });
+        });
+    });
+    return result;
+};
+
+/**
+ * Remove the custom events which happened before the end of an encounter from a list of pending
+ * custom events, returning the ones which happened during the encounter.
+ *
+ * @param pending the pending custom events, in time order
+ * @param encounter the encounter
+ */
+export const takeCustomEvents = (pending: CustomEvent[], encounter: Encounter) => {
+    const index = pending.findIndex((it) => it.timestamp > encounter.end);
+    const taken = pending.splice(0, index === -1 ? pending.length : index);
+    return taken.filter((it) => it.timestamp >= encounter.start);
+};
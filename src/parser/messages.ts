@@ -1,4 +1,6 @@
 import { Encounter } from '@aysi-e/thj-parser-lib';
+import { ByteRange, TimeRange } from './lines.ts';
+import { CustomEvent, LineMatcher } from './matchers.ts';
 
 /**
  * Type representing a progress report from the parser.
@@ -10,12 +12,12 @@ export type ProgressMessage = {
     type: 'progress';
 
     /**
-     * The current progress.
+     * The number of bytes of the log file that have been parsed.
      */
     current: number;
 
     /**
-     * The total number of lines in the log file.
+     * The total number of bytes in the log file.
      */
     total: number;
 };
@@ -33,6 +35,37 @@ export type EncounterMessage = {
      * The encounter data.
      */
     encounter: Encounter;
+
+    /**
+     * The custom events which user-defined line matchers found during the encounter.
+     */
+    custom: CustomEvent[];
+
+    /**
+     * The range of bytes in the log file which covers the lines of the encounter. It may include
+     * some lines before and after the encounter.
+     */
+    bytes: ByteRange;
+};
+
+/**
+ * Type representing the encounter which is still in progress in a log file being watched.
+ */
+export type LiveMessage = {
+    /**
+     * This is a live encounter message.
+     */
+    type: 'live';
+
+    /**
+     * The encounter data so far, or undefined if no encounter is in progress.
+     */
+    encounter: Encounter | undefined;
+
+    /**
+     * The custom events which user-defined line matchers found during the encounter so far.
+     */
+    custom: CustomEvent[];
 };
 
 /**
@@ -60,6 +93,68 @@ export type MetadataMessage = {
     end: number;
 };
 
+/**
+ * Type representing a request to parse a log file.
+ */
+export type ParseRequest = {
+    /**
+     * The log file to parse.
+     */
+    file: File;
+
+    /**
+     * The name of the player who generated the log, if it was provided by the user.
+     */
+    player?: string;
+
+    /**
+     * The range of time to parse. Lines outside of this range are skipped.
+     */
+    range?: TimeRange;
+
+    /**
+     * The range of bytes in the log file to read, or undefined to read the whole file.
+     */
+    bytes?: ByteRange;
+
+    /**
+     * User-defined line matchers to run against each parsed line.
+     */
+    matchers?: LineMatcher[];
+};
+
+/**
+ * Type representing a request to watch a log file, parsing new lines as they are written to it.
+ */
+export type WatchRequest = {
+    /**
+     * A handle to the log file to watch.
+     */
+    handle: FileSystemFileHandle;
+
+    /**
+     * The name of the player who generated the log, if it was provided by the user.
+     */
+    player?: string;
+
+    /**
+     * User-defined line matchers to run against each parsed line.
+     */
+    matchers?: LineMatcher[];
+};
+
+/**
+ * The kinds of error which can occur while parsing a log.
+ *
+ * - `wrong-file-type`: the file is not a text file.
+ * - `unreadable-file`: the file could not be read.
+ * - `no-player-name`: the name of the logging player could not be determined.
+ * - `invalid-report`: the file looked like a report, but could not be read as one.
+ * - `worker-crash`: the parser crashed while parsing the file.
+ */
+export type ErrorCode =
+    'wrong-file-type' | 'unreadable-file' | 'no-player-name' | 'invalid-report' | 'worker-crash';
+
 /**
  * Type representing an error which occurred while parsing the log.
  */
@@ -69,6 +164,11 @@ export type ErrorMessage = {
      */
     type: 'error';
 
+    /**
+     * The kind of error which occurred.
+     */
+    code: ErrorCode;
+
     /**
      * The error message.
      */
@@ -1,9 +1,50 @@
 // webworker block.
 
-import { Parser } from '@aysi-e/thj-parser-lib';
+import { Encounter, Parser } from '@aysi-e/thj-parser-lib';
+import { findLast } from 'lodash';
+import {
+    EncounterMessage,
+    ErrorMessage,
+    LiveMessage,
+    ParseRequest,
+    ProgressMessage,
+    WatchRequest,
+} from './messages.ts';
+import {
+    ByteRange,
+    firstTimestamp,
+    isInRange,
+    lastTimestamp,
+    LINE_BATCH_SIZE,
+    LineBatch,
+    parseTimestamp,
+    readLines,
+    TimeRange,
+} from './lines.ts';
+import { compileMatchers, CustomEvent, matchLines, takeCustomEvents } from './matchers.ts';
 
 const FILENAME_PARSER = new RegExp(`eqlog_(\\w+)_thj.txt`);
 
+/**
+ * How often to check a watched log file for new lines, in milliseconds.
+ */
+const WATCH_INTERVAL = 2000;
+
+/**
+ * Type representing where a batch of lines starts in a log file.
+ */
+type BatchStart = {
+    /**
+     * The timestamp of the first line with a timestamp in the batch.
+     */
+    timestamp: number;
+
+    /**
+     * The offset of the first byte of the batch in the log file.
+     */
+    offset: number;
+};
+
 /**
  * Attempt to read a character name from the log file name.
  *
@@ -15,63 +56,327 @@ const getNameFromFileName = (fileName: string) => {
     return undefined;
 };
 
-{
-    /**
-     * Entrypoint to the webworker function.
-     *
-     * @param e the event.
-     */
-    onmessage = (e: MessageEvent<File>) => {
-        if (e.data.type !== 'text/plain') {
-            // if the file type is obviously wrong, get out of here.
+/**
+ * Report an error to the main thread.
+ *
+ * @param code the kind of error
+ * @param message the error message
+ */
+const postError = (code: ErrorMessage['code'], message: string) => {
+    const error: ErrorMessage = { type: 'error', code, message };
+    postMessage(error);
+};
+
+/**
+ * Report parsing progress to the main thread.
+ *
+ * @param current the number of bytes parsed so far
+ * @param total the total number of bytes in the log file
+ */
+const postProgress = (current: number, total: number) => {
+    const progress: ProgressMessage = { type: 'progress', current, total };
+    postMessage(progress);
+};
+
+/**
+ * Create a parser with no lines, which lines are handed to as they are read from a log file.
+ *
+ * @param fileName the name of the log file
+ * @param player the name of the player who generated the log, if it was provided by the user
+ */
+const createParser = (fileName: string, player?: string) => {
+    const parser = new Parser(``);
+    parser.lines.splice(0);
+    parser.player.name = player || getNameFromFileName(fileName);
+    return parser;
+};
+
+/**
+ * Find the range of bytes in a log file which covers the lines of an encounter.
+ *
+ * The range starts at the last batch of lines which started before the encounter, and ends where
+ * we've read the log file up to, so it may include some lines before and after the encounter.
+ *
+ * @param starts where each batch of lines read so far starts, in order
+ * @param encounter the encounter
+ * @param from the offset we started reading the log file from
+ * @param to the offset we've read the log file up to
+ */
+const findBytes = (
+    starts: BatchStart[],
+    encounter: Encounter,
+    from: number,
+    to: number,
+): ByteRange => ({
+    from: findLast(starts, (it) => it.timestamp < encounter.start)?.offset ?? from,
+    to,
+});
+
+/**
+ * Parse each complete encounter in the lines that have been handed to the parser so far, posting
+ * each one to the main thread.
+ *
+ * Lines belonging to encounters which have been parsed are discarded, so that memory use stays
+ * bounded no matter how big the log file is.
+ *
+ * @param parser the parser
+ * @param final have we handed every line in the log file to the parser?
+ * @param custom the custom events found in the lines handed to the parser, which are posted along
+ * with the encounter they happened during
+ * @param bytes function which finds the range of bytes in the log file covering an encounter
+ */
+const parseBuffered = (
+    parser: Parser,
+    final: boolean,
+    custom: CustomEvent[],
+    bytes: (encounter: Encounter) => ByteRange,
+) => {
+    for (;;) {
+        const index = parser.index;
+        const encounter = parser.parseNext();
+
+        // an encounter that runs up to the last line we've read may continue in the next batch of
+        // lines, so we go back and parse it again once we've read more of the log file.
+        if (encounter !== undefined && !final && parser.index >= parser.lines.length) {
+            parser.index = index;
             return;
         }
 
-        e.data.text().then((log) => {
-            const parser = new Parser(log);
-            parser.player.name = getNameFromFileName(e.data.name);
-
-            postMessage({
-                type: `progress`,
-                total: parser.lines.length,
-                current: parser.index,
-            });
-
-            let encounter = parser.parseNext();
-            while (encounter !== undefined) {
-                postMessage({
-                    type: 'encounter',
-                    encounter,
-                });
-
-                postMessage({
-                    type: `progress`,
-                    total: parser.lines.length,
-                    current: parser.index,
-                });
-
-                encounter = parser.parseNext();
-            }
+        parser.lines.splice(0, parser.index);
+        parser.index = 0;
+        if (encounter === undefined) return;
+
+        const message: EncounterMessage = {
+            type: 'encounter',
+            encounter,
+            custom: takeCustomEvents(custom, encounter),
+            bytes: bytes(encounter),
+        };
+        postMessage(message);
+    }
+};
+
+/**
+ * Remove lines outside of a time range from a batch of log lines.
+ *
+ * Log lines are in time order, so whole batches before or after the range can be skipped without
+ * reading the timestamp of every line.
+ *
+ * @param lines the log lines
+ * @param range the time range to keep
+ */
+const filterLines = (lines: string[], range: TimeRange) => {
+    const first = firstTimestamp(lines);
+    const last = lastTimestamp(lines);
+    if (first === undefined || last === undefined) return [];
+    if (isInRange(first, range) && isInRange(last, range)) return lines;
+    if (range.to !== undefined && first > range.to) return [];
+    if (range.from !== undefined && last < range.from) return [];
+    return lines.filter((line) => {
+        const timestamp = parseTimestamp(line);
+        return timestamp !== undefined && isInRange(timestamp, range);
+    });
+};
+
+/**
+ * Parse a log file, posting each encounter (and progress updates) to the main thread.
+ *
+ * If a range of bytes is provided, only that part of the log file is read.
+ *
+ * @param request the parse request
+ */
+const parse = async ({ file, player, range, bytes, matchers }: ParseRequest) => {
+    if (file.type !== 'text/plain') {
+        // if the file type is obviously wrong, get out of here.
+        postError(`wrong-file-type`, `${file.name} is not a text file`);
+        return;
+    }
+
+    const parser = createParser(file.name, player);
+    const compiled = compileMatchers(matchers ?? []);
+    const custom: CustomEvent[] = [];
+
+    let start: number | undefined = undefined;
+    let end: number | undefined = undefined;
+
+    const base = bytes?.from ?? 0;
+    const blob = bytes ? file.slice(bytes.from, bytes.to) : file;
+    const starts: BatchStart[] = [];
+    let read = 0;
+    const findEncounterBytes = (encounter: Encounter) =>
+        findBytes(starts, encounter, base, base + read);
+    postProgress(0, blob.size);
+
+    const batches = readLines(blob);
+    for (;;) {
+        let batch: IteratorResult<LineBatch>;
+        try {
+            batch = await batches.next();
+        } catch {
+            postError(`unreadable-file`, `couldn't read ${file.name}`);
+            return;
+        }
+        if (batch.done) break;
+
+        // once we're past the end of the time range, there's nothing left to parse.
+        const first = firstTimestamp(batch.value.lines);
+        if (range?.to !== undefined && first !== undefined && first > range.to) break;
+        if (first !== undefined) starts.push({ timestamp: first, offset: base + read });
+        read = batch.value.bytes;
+
+        const lines = range ? filterLines(batch.value.lines, range) : batch.value.lines;
+        start ??= firstTimestamp(lines);
+        end = lastTimestamp(lines) ?? end;
+
+        // user-defined line matchers see every line, including those the parser doesn't understand.
+        custom.push(...matchLines(lines, compiled));
+        parser.lines.push(...lines);
+        parseBuffered(parser, false, custom, findEncounterBytes);
+        postProgress(read, blob.size);
+    }
+
+    parseBuffered(parser, true, custom, findEncounterBytes);
+    postProgress(blob.size, blob.size);
+
+    if (!parser.player.name) {
+        postError(`no-player-name`, `couldn't determine logging player's name`);
+    } else {
+        postMessage({
+            type: `metadata`,
+            loggedBy: parser.player.name,
+            start: start ?? parser.start!,
+            end: end ?? parser.end!,
+        });
+    }
+};
+
+/**
+ * Post the encounter which is in progress at the end of the lines handed to the parser so far.
+ *
+ * The parser is rewound afterwards, so that the encounter is parsed again once it's complete.
+ *
+ * @param parser the parser
+ * @param custom the custom events found in the lines handed to the parser
+ */
+const postLive = (parser: Parser, custom: CustomEvent[]) => {
+    const index = parser.index;
+    const encounter = parser.parseNext();
+    parser.index = index;
+
+    const live: LiveMessage = {
+        type: 'live',
+        encounter,
+        custom: encounter ? custom.filter((it) => it.timestamp >= encounter.start) : [],
+    };
+    postMessage(live);
+};
 
-            postMessage({
-                type: `progress`,
-                total: parser.lines.length,
-                current: parser.lines.length,
-            });
-
-            if (!parser.player.name) {
-                postMessage({
-                    type: 'error',
-                    message: `couldn't determine logging player's name`,
-                });
-            } else {
-                postMessage({
-                    type: `metadata`,
-                    loggedBy: parser.player.name,
-                    start: parser.start!,
-                    end: parser.end!,
-                });
+/**
+ * Wait for a number of milliseconds.
+ *
+ * @param ms the number of milliseconds to wait
+ */
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Watch a log file which is still being written, parsing new lines as they are appended to it.
+ *
+ * The whole file is parsed first, and then the file is read again every few seconds, handing only
+ * the new lines to the parser. Complete encounters are posted as usual, along with the encounter
+ * which is still in progress. This continues until the worker is terminated.
+ *
+ * @param request the watch request
+ */
+const watch = async ({ handle, player, matchers }: WatchRequest) => {
+    let parser = createParser(handle.name, player);
+    const compiled = compileMatchers(matchers ?? []);
+    const custom: CustomEvent[] = [];
+    let start: number | undefined = undefined;
+    let end: number | undefined = undefined;
+    let offset = 0;
+    const starts: BatchStart[] = [];
+
+    for (;;) {
+        let file: File;
+        try {
+            file = await handle.getFile();
+        } catch {
+            postError(`unreadable-file`, `couldn't read ${handle.name}`);
+            return;
+        }
+
+        if (file.type !== 'text/plain') {
+            postError(`wrong-file-type`, `${file.name} is not a text file`);
+            return;
+        }
+
+        // if the file got smaller, it was cleared (or replaced), so read it from the start again.
+        // anything left over from the old file would be mixed up with the new lines, so we start
+        // again with a fresh parser, keeping the player's name.
+        if (file.size < offset) {
+            offset = 0;
+            parser = createParser(handle.name, parser.player.name);
+            custom.splice(0);
+            starts.splice(0);
+        }
+
+        // a line may be only partly written, so leave it for next time.
+        const batches = readLines(file.slice(offset), LINE_BATCH_SIZE, false);
+        let read = 0;
+        for (;;) {
+            let batch: IteratorResult<LineBatch>;
+            try {
+                batch = await batches.next();
+            } catch {
+                postError(`unreadable-file`, `couldn't read ${file.name}`);
+                return;
             }
+            if (batch.done) break;
+
+            const lines = batch.value.lines;
+            const first = firstTimestamp(lines);
+            if (first !== undefined) starts.push({ timestamp: first, offset: offset + read });
+            start ??= first;
+            end = lastTimestamp(lines) ?? end;
+            read = batch.value.bytes;
+
+            custom.push(...matchLines(lines, compiled));
+            parser.lines.push(...lines);
+            parseBuffered(parser, false, custom, (encounter) =>
+                findBytes(starts, encounter, 0, offset + read),
+            );
+            postProgress(offset + read, file.size);
+        }
+        offset += read;
+        postProgress(file.size, file.size);
+
+        if (!parser.player.name) {
+            postError(`no-player-name`, `couldn't determine logging player's name`);
+            return;
+        }
+
+        postLive(parser, custom);
+        postMessage({
+            type: `metadata`,
+            loggedBy: parser.player.name,
+            start: start ?? parser.start!,
+            end: end ?? parser.end!,
         });
+        await sleep(WATCH_INTERVAL);
+    }
+};
+
+{
+    /**
+     * Entrypoint to the webworker function.
+     *
+     * @param e the event.
+     */
+    onmessage = (e: MessageEvent<ParseRequest | WatchRequest>) => {
+        const request = e.data;
+        const name = 'handle' in request ? request.handle.name : request.file.name;
+        ('handle' in request ? watch(request) : parse(request)).catch((error) =>
+            postError(`worker-crash`, `the parser crashed while reading ${name}: ${error}`),
+        );
     };
 }
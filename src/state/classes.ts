@@ -0,0 +1,281 @@
+// module containing functions which work out the class and role of each character in an encounter.
+
+import { useContext } from 'react';
+import { maxBy, toPairs } from 'lodash';
+import type { EncounterEntityState } from './encounter.ts';
+import { LogContext } from './log.ts';
+import { useOwnerOf } from './pets.ts';
+
+/**
+ * Type representing a character class.
+ */
+export type CharacterClass =
+    | `bard`
+    | `beastlord`
+    | `berserker`
+    | `cleric`
+    | `druid`
+    | `enchanter`
+    | `magician`
+    | `monk`
+    | `necromancer`
+    | `paladin`
+    | `ranger`
+    | `rogue`
+    | `shadowknight`
+    | `shaman`
+    | `warrior`
+    | `wizard`;
+
+/**
+ * Type representing the role a character class plays in a raid.
+ */
+export type Role = `tank` | `healer` | `melee` | `caster`;
+
+/**
+ * Each role, in the order they're shown.
+ */
+export const ROLES: Role[] = [`tank`, `healer`, `melee`, `caster`];
+
+/**
+ * Type representing information about a character class.
+ */
+export type ClassInfo = {
+    /**
+     * The name of the class, for display.
+     */
+    name: string;
+
+    /**
+     * The role the class plays in a raid.
+     */
+    role: Role;
+
+    /**
+     * The color used for the class on meters.
+     */
+    color: string;
+
+    /**
+     * The path to the class icon.
+     */
+    icon: string;
+};
+
+// @ts-ignore - added by vite
+const baseUrl = import.meta.env.BASE_URL;
+
+/**
+ * Information about each character class.
+ */
+export const CLASSES: Record<CharacterClass, ClassInfo> = {
+    bard: { name: `bard`, role: `melee`, color: `#8c4a8f`, icon: `${baseUrl}bard.png` },
+    beastlord: {
+        name: `beastlord`,
+        role: `melee`,
+        color: `#7a6a3a`,
+        icon: `${baseUrl}beastlord.png`,
+    },
+    berserker: {
+        name: `berserker`,
+        role: `melee`,
+        color: `#8f3f2a`,
+        icon: `${baseUrl}berserker.png`,
+    },
+    cleric: { name: `cleric`, role: `healer`, color: `#8a8a8a`, icon: `${baseUrl}cleric.png` },
+    druid: { name: `druid`, role: `healer`, color: `#4f7a32`, icon: `${baseUrl}druid.png` },
+    enchanter: {
+        name: `enchanter`,
+        role: `caster`,
+        color: `#6a4fa0`,
+        icon: `${baseUrl}enchanter.png`,
+    },
+    magician: {
+        name: `magician`,
+        role: `caster`,
+        color: `#3f7f8f`,
+        icon: `${baseUrl}magician.png`,
+    },
+    monk: { name: `monk`, role: `melee`, color: `#2f8a6a`, icon: `${baseUrl}monk.png` },
+    necromancer: {
+        name: `necromancer`,
+        role: `caster`,
+        color: `#5a5a2f`,
+        icon: `${baseUrl}necromancer.png`,
+    },
+    paladin: { name: `paladin`, role: `tank`, color: `#a0668a`, icon: `${baseUrl}paladin.png` },
+    ranger: { name: `ranger`, role: `melee`, color: `#5c7a2a`, icon: `${baseUrl}ranger.png` },
+    rogue: { name: `rogue`, role: `melee`, color: `#8f8a3a`, icon: `${baseUrl}rogue.png` },
+    shadowknight: {
+        name: `shadow knight`,
+        role: `tank`,
+        color: `#5a2f6a`,
+        icon: `${baseUrl}shadowknight.png`,
+    },
+    shaman: { name: `shaman`, role: `healer`, color: `#2f5a8f`, icon: `${baseUrl}shaman.png` },
+    warrior: { name: `warrior`, role: `tank`, color: `#7a5a3a`, icon: `${baseUrl}warrior.png` },
+    wizard: { name: `wizard`, role: `caster`, color: `#3a5ab0`, icon: `${baseUrl}wizard.png` },
+};
+
+/**
+ * Type representing a clue towards a character's class, found in the names of the melee skills,
+ * spells and heals they used.
+ */
+type ClassClue = {
+    /**
+     * The class the clue points to.
+     */
+    class: CharacterClass;
+
+    /**
+     * A pattern which matches the melee skill, spell or heal name.
+     */
+    pattern: RegExp;
+
+    /**
+     * How strongly the clue points to the class. Skills and spells which only one class can use
+     * are worth more than those several classes share.
+     */
+    weight: number;
+};
+
+/**
+ * Clues found in the names of melee skills.
+ */
+const MELEE_CLUES: ClassClue[] = [
+    { class: `rogue`, pattern: /^backstab/i, weight: 3 },
+    { class: `berserker`, pattern: /^frenzy/i, weight: 3 },
+    {
+        class: `monk`,
+        pattern: /^(flying kick|tiger claw|eagle strike|dragon punch|round kick)/i,
+        weight: 3,
+    },
+    { class: `ranger`, pattern: /^(shoot|archery)/i, weight: 1 },
+    { class: `warrior`, pattern: /^(kick|bash)/i, weight: 1 },
+];
+
+/**
+ * Clues found in the names of damaging spells.
+ */
+const SPELL_CLUES: ClassClue[] = [
+    {
+        class: `wizard`,
+        pattern: /^(ice comet|sunstrike|lure of|draught of|thunderclap|supernova|conflagration)/i,
+        weight: 2,
+    },
+    {
+        class: `magician`,
+        pattern: /^(lava bolt|shock of (steel|blades|swords|spikes)|blade strike|sun vortex)/i,
+        weight: 2,
+    },
+    {
+        class: `necromancer`,
+        pattern: /^(splurt|ignite bones|pyrocruor|boil blood|heat blood|dooming darkness)/i,
+        weight: 2,
+    },
+    {
+        class: `necromancer`,
+        pattern: /^(cascading darkness|bond of death|venom of the snake|envenomed bolt)/i,
+        weight: 2,
+    },
+    {
+        class: `shaman`,
+        pattern: /^(torrent of poison|blast of poison|spirit strike|frost strike|winter's roar)/i,
+        weight: 2,
+    },
+    {
+        class: `druid`,
+        pattern: /^(starfire|wildfire|scoriae|moonfire|winged death|creeping crud)/i,
+        weight: 2,
+    },
+    {
+        class: `enchanter`,
+        pattern: /^(chaos flux|sanity warp|dementing visions|mind wrack)/i,
+        weight: 2,
+    },
+    { class: `bard`, pattern: /(chant of|discord|chords)/i, weight: 2 },
+    { class: `shadowknight`, pattern: /^(harm touch|spear of (disease|pain|plague))/i, weight: 3 },
+    { class: `paladin`, pattern: /^(holy might|force of akera|ward of tunare)/i, weight: 2 },
+    {
+        class: `cleric`,
+        pattern: /^(retribution|wrath|reckoning|judgment|condemnation)/i,
+        weight: 1,
+    },
+];
+
+/**
+ * Clues found in the names of heals.
+ */
+const HEAL_CLUES: ClassClue[] = [
+    { class: `paladin`, pattern: /^lay on hands/i, weight: 3 },
+    {
+        class: `cleric`,
+        pattern: /^(complete heal|divine light|remedy|supernal|celestial|word of)/i,
+        weight: 2,
+    },
+    { class: `druid`, pattern: /^(chloroblast|nature's touch|tunare's renewal)/i, weight: 2 },
+    { class: `shaman`, pattern: /^(kragg's mending|spiritual remedy|quiescence)/i, weight: 2 },
+];
+
+/**
+ * The share of a character's output which needs to be healing for us to guess that they're a
+ * healer when nothing else gives away their class.
+ */
+const HEALER_SHARE = 0.5;
+
+/**
+ * Work out the class of a character from the melee skills, spells and heals they used during an
+ * encounter.
+ *
+ * This is a best guess: many skills and spells are shared between classes, so the class with the
+ * most evidence wins, and characters with nothing distinctive are left without a class.
+ *
+ * @param entity the character
+ */
+export const detectClass = (entity: EncounterEntityState): CharacterClass | undefined => {
+    if (entity.isEnemy || entity.isPet) return undefined;
+    const scores: Partial<Record<CharacterClass, number>> = {};
+
+    /**
+     * Add the clues matching a name to the class scores.
+     *
+     * @param clues the clues to check
+     * @param name the melee skill, spell or heal name
+     */
+    const addClues = (clues: ClassClue[], name: string) =>
+        clues
+            .filter((it) => it.pattern.test(name))
+            .forEach((it) => (scores[it.class] = (scores[it.class] ?? 0) + it.weight));
+
+    entity.damageDealtBreakdown().items.forEach((it) => {
+        if (it.type === `melee`) addClues(MELEE_CLUES, it.name);
+        if (it.type === `spell`) addClues(SPELL_CLUES, it.name);
+    });
+    const healing = entity.healingDoneBreakdown();
+    healing.items.forEach((it) => addClues(HEAL_CLUES, it.name));
+
+    const best = maxBy(toPairs(scores), ([, score]) => score);
+    if (best) return best[0] as CharacterClass;
+
+    // someone who mostly healed is probably a cleric.
+    const total = healing.total + entity.damageDealt();
+    if (total > 0 && healing.total / total >= HEALER_SHARE) return `cleric`;
+    return undefined;
+};
+
+/**
+ * Use a function which gets the class of a character, using the class the user chose for them if
+ * any, or the class detected from what they did during the encounter otherwise.
+ *
+ * Pets have the class of their owner.
+ */
+export const useClassOf = () => {
+    const log = useContext(LogContext);
+    const ownerOf = useOwnerOf();
+    return (entity: EncounterEntityState): CharacterClass | undefined => {
+        const owner = ownerOf(entity);
+        const character = owner ?? (entity.isPet ? undefined : entity);
+        if (!character || character.isEnemy) return undefined;
+        return log.classes[character.name] ?? character.detectedClass;
+    };
+};
@@ -2,14 +2,22 @@ import {
     DamageShieldDamage,
     Encounter,
     Entity,
+    HandlerEvent,
     Healing,
     MeleeDamage,
     SpellDamage,
+    toDPSData,
+    toHPSData,
 } from '@aysi-e/thj-parser-lib';
 import { computed, makeAutoObservable } from 'mobx';
-import { chain, keys, union, values } from 'lodash';
+import { chain, findLast, keys, last, sumBy, takeRight, union, values } from 'lodash';
 import { createContext, useContext } from 'react';
 import { DateTime, Duration } from 'luxon';
+import { combineSeries, isCombined } from '../parser/encounters.ts';
+import { CustomEvent } from '../parser/matchers.ts';
+import { LogEncounter } from './log.ts';
+import { detectPhases } from './phases.ts';
+import { detectClass } from './classes.ts';
 
 /**
  * An encounter context.
@@ -71,10 +79,13 @@ class EncounterState {
     }
 
     /**
-     * Get the unique id for this encounter.
+     * Get the unique id for this encounter, as used in its page url.
+     *
+     * If this encounter is a segment merged from a range of encounters, or only covers a window of
+     * time within an encounter, this is the id used for it in page urls.
      */
-    get id() {
-        return this.encounter.id;
+    get id(): string | number {
+        return (this.encounter as LogEncounter).segment ?? this.encounter.id;
     }
 
     /**
@@ -168,6 +179,48 @@ class EncounterState {
         return this.encounter.timeline;
     }
 
+    /**
+     * Get damage per second data over the course of this encounter.
+     *
+     * @param sources the ids of the entities dealing damage, or undefined for all entities
+     * @param targets the ids of the entities taking damage, or undefined for all entities
+     */
+    dpsData(sources?: string[], targets?: string[]): { time: number; dps: number }[] {
+        const encounter = this.encounter;
+        if (!isCombined(encounter))
+            return toDPSData(encounter.timeline, undefined, undefined, sources, targets);
+        const toData = (part: Encounter, partSources?: string[], partTargets?: string[]) =>
+            toDPSData(part.timeline, undefined, undefined, partSources, partTargets).map((it) => ({
+                time: it.time,
+                value: it.dps,
+            }));
+        return combineSeries(encounter, sources, targets, `damage`, toData).map((it) => ({
+            time: it.time,
+            dps: it.value,
+        }));
+    }
+
+    /**
+     * Get healing per second data over the course of this encounter.
+     *
+     * @param sources the ids of the entities doing the healing, or undefined for all entities
+     * @param targets the ids of the entities being healed, or undefined for all entities
+     */
+    hpsData(sources?: string[], targets?: string[]): { time: number; hps: number }[] {
+        const encounter = this.encounter;
+        if (!isCombined(encounter))
+            return toHPSData(encounter.timeline, undefined, undefined, sources, targets);
+        const toData = (part: Encounter, partSources?: string[], partTargets?: string[]) =>
+            toHPSData(part.timeline, undefined, undefined, partSources, partTargets).map((it) => ({
+                time: it.time,
+                value: it.hps,
+            }));
+        return combineSeries(encounter, sources, targets, `healing`, toData).map((it) => ({
+            time: it.time,
+            hps: it.value,
+        }));
+    }
+
     /**
      * Get each character participating in this encounter.
      */
@@ -181,6 +234,55 @@ class EncounterState {
     get events() {
         return this.encounter.events;
     }
+
+    /**
+     * Get the custom events which user-defined line matchers found during this encounter.
+     */
+    get customEvents(): CustomEvent[] {
+        return (this.encounter as LogEncounter).custom ?? [];
+    }
+
+    /**
+     * Get each death that occurred during this encounter, in time order.
+     */
+    @computed
+    get deaths() {
+        return this.encounter.events.filter((it): it is DeathEvent => it.type === `death`);
+    }
+
+    /**
+     * Get each second of the encounter (counted from its start) in which each entity performed at
+     * least one action, in time order and keyed by entity id. The events are scanned once for every
+     * entity, rather than once per entity.
+     */
+    @computed
+    get actionSeconds(): Record<string, number[]> {
+        const start = this.encounter.start;
+        const seconds: Record<string, number[]> = {};
+        this.encounter.events.filter(isActionEvent).forEach((it) => {
+            const second = Math.floor((it.timestamp - start) / 1000);
+            const list = (seconds[it.sourceId] ??= []);
+            if (last(list) !== second) list.push(second);
+        });
+        return seconds;
+    }
+
+    /**
+     * Get the phase markers the user placed in this encounter, in seconds from the start of the
+     * encounter.
+     */
+    get markers() {
+        const start = this.encounter.start;
+        return ((this.encounter as LogEncounter).markers ?? []).map((it) => (it - start) / 1000);
+    }
+
+    /**
+     * Get the phases of this encounter, or an empty list if it only has one phase.
+     */
+    @computed
+    get phases() {
+        return detectPhases(this, this.markers);
+    }
 }
 
 export default EncounterState;
@@ -258,6 +360,13 @@ export class EncounterEntityState {
         return this.entity.isEnemy;
     }
 
+    /**
+     * Is this entity a boss?
+     */
+    get isBoss() {
+        return this.entity.isBoss;
+    }
+
     /**
      * Is this entity a pet?
      */
@@ -273,6 +382,82 @@ export class EncounterEntityState {
         return undefined;
     }
 
+    /**
+     * Get the class of this entity, detected from what it did during the encounter, if it's a
+     * character whose class could be worked out.
+     */
+    @computed
+    get detectedClass() {
+        return detectClass(this);
+    }
+
+    /**
+     * Get each death of this entity during the encounter, in time order.
+     */
+    get deaths() {
+        return this.encounter.deaths.filter((it) => it.killedId === this.id);
+    }
+
+    /**
+     * Get each second of the encounter (counted from its start) in which this entity performed at
+     * least one action (a melee swing, spell or heal), in time order.
+     */
+    @computed
+    get actionSeconds(): number[] {
+        return this.encounter.actionSeconds[this.id] ?? [];
+    }
+
+    /**
+     * Get the time from this entity's first action during the encounter to its last, which is
+     * shorter than the encounter for entities which joined partway through (such as adds and pets)
+     * or died before it ended.
+     */
+    get presentTime() {
+        return toPresentTime(this.actionSeconds);
+    }
+
+    /**
+     * Get the time during the encounter in which this entity was active, which is each second in
+     * which it performed at least one action (a melee swing, spell or heal).
+     *
+     * Short gaps between two actions (such as waiting on a spell cast or a slow weapon) can also be
+     * counted as active time.
+     *
+     * @param tolerance the longest gap between two actions, in seconds, which counts as active
+     */
+    activeTime(tolerance = 0) {
+        return toActiveTime(this.actionSeconds, tolerance);
+    }
+
+    /**
+     * Get a recap of the damage and healing this entity received leading up to one of its deaths.
+     *
+     * @param death the death event
+     * @param limit the maximum number of damage and healing events to include
+     */
+    deathRecap(death: DeathEvent, limit = DEATH_RECAP_LENGTH): DeathRecap {
+        const events: RecapEvent[] = [];
+        const index = this.encounter.events.indexOf(death);
+        for (let i = index - 1; i >= 0 && events.length < limit; i--) {
+            const event = this.encounter.events[i];
+            if (isRecapEvent(event) && event.targetId === this.id) events.unshift(event);
+        }
+
+        const damage = events.filter((it) => it.type !== `heal` && it.type !== `absorb`);
+        const damageTaken = damage.reduce((acc, val) => acc + val.amount, 0);
+        const healingReceived = events
+            .filter((it) => it.type === `heal` || it.type === `absorb`)
+            .reduce((acc, val) => acc + val.amount, 0);
+
+        return {
+            death,
+            events,
+            damageTaken,
+            healingReceived,
+            killingBlow: findLast(damage, (it) => it.sourceId === death.killerId) ?? last(damage),
+        };
+    }
+
     /**
      * Get damage dealt breakdown data for this entity, returning damage dealt by this entity to all
      * targets.
@@ -427,6 +612,24 @@ export class EncounterEntityState {
         return this.healingDoneBreakdown().total;
     }
 
+    /**
+     * Get the damage dealt by this entity during the last few seconds of the encounter.
+     *
+     * @param seconds the number of seconds to include
+     */
+    recentDamageDealt(seconds: number) {
+        return sumBy(takeRight(this.encounter.dpsData([this.id]), seconds), (it) => it.dps);
+    }
+
+    /**
+     * Get the healing done by this entity during the last few seconds of the encounter.
+     *
+     * @param seconds the number of seconds to include
+     */
+    recentHealingDone(seconds: number) {
+        return sumBy(takeRight(this.encounter.hpsData([this.id]), seconds), (it) => it.hps);
+    }
+
     /**
      * Get the total damage taken by this entity during the encounter.
      */
@@ -519,92 +722,13 @@ export class EncounterEntityState {
     private toDamageBreakdown(type: `incoming` | `outgoing`) {
         const ce = this.entity[type];
         const targets = union(keys(ce.ds), keys(ce.melee), keys(ce.spell));
-        const result = targets
-            .map((it) =>
+        return mergeDamageBreakdowns(
+            targets.map((it) =>
                 type === 'outgoing'
                     ? this.damageDealtBreakdownTo(it)
                     : this.damageTakenBreakdownFrom(it),
-            )
-            .reduce<{
-                items: Record<
-                    string,
-                    DamageShieldBreakdownItem | MeleeBreakdownItem | SpellBreakdownItem
-                >;
-                total: number;
-            }>(
-                (acc, val) => {
-                    val.items.forEach((it) => {
-                        const key = `${it.type}-${it.name}`;
-                        switch (it.type) {
-                            case 'ds':
-                                if (acc.items[key]) {
-                                    (acc.items[key].data as DamageShieldDamage).addFrom(
-                                        it.data as DamageShieldDamage,
-                                    );
-                                } else {
-                                    const ds = new DamageShieldDamage(
-                                        it.data.effect,
-                                        EncounterEntityState.ALL_TARGETS,
-                                    );
-                                    ds.addFrom(it.data);
-                                    acc.items[key] = {
-                                        name: it.name,
-                                        type: it.type,
-                                        data: ds,
-                                    };
-                                }
-                                break;
-                            case 'melee':
-                                if (acc.items[key]) {
-                                    (acc.items[key].data as MeleeDamage).addFrom(
-                                        it.data as MeleeDamage,
-                                    );
-                                } else {
-                                    const melee = new MeleeDamage(
-                                        it.data.type,
-                                        EncounterEntityState.ALL_TARGETS,
-                                    );
-                                    melee.addFrom(it.data);
-                                    acc.items[key] = {
-                                        name: it.name,
-                                        type: it.type,
-                                        data: melee,
-                                    };
-                                }
-                                break;
-                            case 'spell':
-                                if (acc.items[key]) {
-                                    (acc.items[key].data as SpellDamage).addFrom(
-                                        it.data as SpellDamage,
-                                    );
-                                } else {
-                                    const melee = new SpellDamage(
-                                        it.data.name,
-                                        EncounterEntityState.ALL_TARGETS,
-                                    );
-                                    melee.addFrom(it.data);
-                                    acc.items[key] = {
-                                        name: it.name,
-                                        type: it.type,
-                                        data: melee,
-                                    };
-                                }
-                                break;
-                        }
-                    });
-                    acc.total += val.total;
-                    return acc;
-                },
-                {
-                    items: {},
-                    total: 0,
-                },
-            );
-
-        return {
-            items: values(result.items).sort((a, b) => b.data.total - a.data.total),
-            total: result.total,
-        };
+            ),
+        );
     }
 
     /**
@@ -700,6 +824,243 @@ export class EncounterEntityState {
     }
 }
 
+/**
+ * Merge several damage breakdowns into one, combining items of the same type and name.
+ *
+ * This is used both to combine an entity's damage to each target, and to combine an entity's damage
+ * across several encounters.
+ *
+ * @param breakdowns the damage breakdowns to merge
+ */
+export const mergeDamageBreakdowns = (breakdowns: DamageBreakdownData[]): DamageBreakdownData => {
+    const result = breakdowns.reduce<{
+        items: Record<string, DamageShieldBreakdownItem | MeleeBreakdownItem | SpellBreakdownItem>;
+        total: number;
+    }>(
+        (acc, val) => {
+            val.items.forEach((it) => {
+                const key = `${it.type}-${it.name}`;
+                switch (it.type) {
+                    case 'ds':
+                        if (acc.items[key]) {
+                            (acc.items[key].data as DamageShieldDamage).addFrom(
+                                it.data as DamageShieldDamage,
+                            );
+                        } else {
+                            const ds = new DamageShieldDamage(
+                                it.data.effect,
+                                EncounterEntityState.ALL_TARGETS,
+                            );
+                            ds.addFrom(it.data);
+                            acc.items[key] = {
+                                name: it.name,
+                                type: it.type,
+                                data: ds,
+                            };
+                        }
+                        break;
+                    case 'melee':
+                        if (acc.items[key]) {
+                            (acc.items[key].data as MeleeDamage).addFrom(it.data as MeleeDamage);
+                        } else {
+                            const melee = new MeleeDamage(
+                                it.data.type,
+                                EncounterEntityState.ALL_TARGETS,
+                            );
+                            melee.addFrom(it.data);
+                            acc.items[key] = {
+                                name: it.name,
+                                type: it.type,
+                                data: melee,
+                            };
+                        }
+                        break;
+                    case 'spell':
+                        if (acc.items[key]) {
+                            (acc.items[key].data as SpellDamage).addFrom(it.data as SpellDamage);
+                        } else {
+                            const spell = new SpellDamage(
+                                it.data.name,
+                                EncounterEntityState.ALL_TARGETS,
+                            );
+                            spell.addFrom(it.data);
+                            acc.items[key] = {
+                                name: it.name,
+                                type: it.type,
+                                data: spell,
+                            };
+                        }
+                        break;
+                }
+            });
+            acc.total += val.total;
+            return acc;
+        },
+        {
+            items: {},
+            total: 0,
+        },
+    );
+
+    return {
+        items: values(result.items).sort((a, b) => b.data.total - a.data.total),
+        total: result.total,
+    };
+};
+
+/**
+ * Merge several healing breakdowns into one, combining items of the same type and name.
+ *
+ * @param breakdowns the healing breakdowns to merge
+ */
+export const mergeHealingBreakdowns = (
+    breakdowns: HealingBreakdownData[],
+): HealingBreakdownData => {
+    const result = breakdowns.reduce<{
+        items: Record<string, HealingBreakdownItem>;
+        total: number;
+    }>(
+        (acc, val) => {
+            val.items.forEach((it) => {
+                const key = `${it.type}-${it.name}`;
+                if (acc.items[key]) {
+                    acc.items[key].data.addFrom(it.data);
+                } else {
+                    const heal = new Healing(
+                        it.data.name,
+                        EncounterEntityState.ALL_TARGETS,
+                        it.data.isAbsorb,
+                    );
+                    heal.addFrom(it.data);
+                    acc.items[key] = {
+                        name: it.name,
+                        type: it.type,
+                        data: heal,
+                    };
+                }
+            });
+            acc.total += val.total;
+            return acc;
+        },
+        {
+            items: {},
+            total: 0,
+        },
+    );
+
+    return {
+        items: values(result.items).sort((a, b) => b.data.total - a.data.total),
+        total: result.total,
+    };
+};
+
+/**
+ * The default number of damage and healing events to include in a death recap.
+ */
+export const DEATH_RECAP_LENGTH = 10;
+
+/**
+ * Type representing an entity's death.
+ */
+export type DeathEvent = Extract<HandlerEvent, { type: `death` }>;
+
+/**
+ * Type representing an event which can be included in a death recap.
+ */
+export type RecapEvent = Extract<
+    HandlerEvent,
+    { type: `meleehit` | `spellhit` | `damageshield` | `heal` | `absorb` }
+>;
+
+/**
+ * Is the provided event a damage or healing event that can be included in a death recap?
+ *
+ * @param event the event
+ */
+const isRecapEvent = (event: HandlerEvent): event is RecapEvent =>
+    event.type === `meleehit` ||
+    event.type === `spellhit` ||
+    event.type === `damageshield` ||
+    event.type === `heal` ||
+    event.type === `absorb`;
+
+/**
+ * Type representing an action performed by an entity.
+ */
+export type ActionEvent = Extract<
+    HandlerEvent,
+    { type: `meleehit` | `meleemiss` | `spellhit` | `spellmiss` | `heal` }
+>;
+
+/**
+ * Is the provided event an action performed by an entity?
+ *
+ * Damage shields and absorbs are not included, since they happen without the entity doing anything.
+ *
+ * @param event the event
+ */
+const isActionEvent = (event: HandlerEvent): event is ActionEvent =>
+    event.type === `meleehit` ||
+    event.type === `meleemiss` ||
+    event.type === `spellhit` ||
+    event.type === `spellmiss` ||
+    event.type === `heal`;
+
+/**
+ * Get the time from the first to the last of some seconds in which actions were performed.
+ *
+ * @param seconds the seconds in which actions were performed, in time order
+ */
+export const toPresentTime = (seconds: number[]) => {
+    if (!seconds.length) return Duration.fromMillis(0);
+    return Duration.fromObject({ seconds: seconds[seconds.length - 1] - seconds[0] + 1 });
+};
+
+/**
+ * Get the active time across some seconds in which actions were performed, counting each of those
+ * seconds along with any gap between two of them which is short enough.
+ *
+ * @param seconds the seconds in which actions were performed, in time order
+ * @param tolerance the longest gap between two actions, in seconds, which counts as active
+ */
+export const toActiveTime = (seconds: number[], tolerance = 0) => {
+    const active = seconds.reduce((acc, val, index, array) => {
+        const gap = index ? val - array[index - 1] - 1 : 0;
+        return acc + 1 + (gap <= tolerance ? gap : 0);
+    }, 0);
+    return Duration.fromObject({ seconds: active });
+};
+
+/**
+ * Type representing the events leading up to an entity's death.
+ */
+export type DeathRecap = {
+    /**
+     * The death event.
+     */
+    death: DeathEvent;
+
+    /**
+     * The damage and healing events received by the entity before it died, oldest first.
+     */
+    events: RecapEvent[];
+
+    /**
+     * The total damage taken during the recap.
+     */
+    damageTaken: number;
+
+    /**
+     * The total healing received during the recap.
+     */
+    healingReceived: number;
+
+    /**
+     * The damage event which killed the entity, if it was included in the log.
+     */
+    killingBlow: RecapEvent | undefined;
+};
+
 /**
  * Type representing damage broken down by item.
  */
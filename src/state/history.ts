@@ -0,0 +1,90 @@
+// module containing functions which track a character's performance across encounters.
+
+import { sortBy } from 'lodash';
+import { LogEncounter } from './log.ts';
+import EncounterState, { EncounterEntityState, mergeDamageBreakdowns } from './encounter.ts';
+
+/**
+ * Type representing a character's performance in a single encounter.
+ */
+export type CharacterAppearance = {
+    /**
+     * The encounter the character appeared in.
+     */
+    encounter: LogEncounter;
+
+    /**
+     * The character in the encounter.
+     */
+    entity: EncounterEntityState;
+
+    /**
+     * The title of the encounter.
+     */
+    title: string;
+
+    /**
+     * The character's damage per second during the encounter.
+     */
+    dps: number;
+
+    /**
+     * The character's healing per second during the encounter.
+     */
+    hps: number;
+
+    /**
+     * The damage taken by the character during the encounter.
+     */
+    damageTaken: number;
+
+    /**
+     * The character's rank by damage dealt among the allied characters (not pets) in the encounter,
+     * starting from 1.
+     */
+    rank: number;
+
+    /**
+     * The number of allied characters (not pets) in the encounter.
+     */
+    characters: number;
+};
+
+/**
+ * Get every encounter a character appeared in, in time order.
+ *
+ * @param encounters the encounters, in time order
+ * @param name the name of the character
+ */
+export const characterHistory = (encounters: LogEncounter[], name: string): CharacterAppearance[] =>
+    encounters.flatMap((encounter) => {
+        const state = new EncounterState(encounter);
+        const entity = state.friends.find((it) => it.name === name && !it.isPet);
+        if (!entity) return [];
+
+        const seconds = Math.max(1, state.duration.as('seconds'));
+        const ranked = sortBy(
+            state.friends.filter((it) => !it.isPet),
+            (it) => -it.damageDealt(),
+        );
+        return [
+            {
+                encounter,
+                entity,
+                title: state.title,
+                dps: entity.damageDealt() / seconds,
+                hps: entity.healingDone() / seconds,
+                damageTaken: entity.damageTaken(),
+                rank: ranked.indexOf(entity) + 1,
+                characters: ranked.length,
+            },
+        ];
+    });
+
+/**
+ * Get a character's damage dealt, broken down by ability and merged across several encounters.
+ *
+ * @param history the encounters the character appeared in
+ */
+export const historyDamageBreakdown = (history: CharacterAppearance[]) =>
+    mergeDamageBreakdowns(history.map((it) => it.entity.damageDealtBreakdown()));
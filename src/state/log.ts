@@ -1,106 +1,1320 @@
-import { action, makeAutoObservable, runInAction } from 'mobx';
+import { action, makeAutoObservable, runInAction, toJS } from 'mobx';
 import { Encounter } from '@aysi-e/thj-parser-lib';
 import { createContext } from 'react';
 import {
     EncounterMessage,
+    ErrorCode,
     ErrorMessage,
+    LiveMessage,
     MetadataMessage,
+    ParseRequest,
     ProgressMessage,
+    WatchRequest,
 } from '../parser/messages.ts';
-import { round } from 'lodash';
+import {
+    every,
+    flatMap,
+    intersection,
+    max,
+    min,
+    round,
+    sortBy,
+    sortedLastIndexBy,
+    sumBy,
+    uniq,
+    uniqBy,
+} from 'lodash';
+import { nanoid } from 'nanoid';
+import {
+    isCombined,
+    isSameEncounter,
+    mergePerspectives,
+    mergeSegment,
+} from '../parser/encounters.ts';
+import {
+    deleteSession,
+    getCharacterClasses,
+    getCurrentSessionId,
+    getLineMatchers,
+    getPetOwners,
+    listSessions,
+    loadSession,
+    saveSession,
+    SessionSummary,
+    setCharacterClasses,
+    setCurrentSessionId,
+    setLineMatchers,
+    setPetOwners,
+} from './storage.ts';
+import { isReportFile, readReport, ReportError, toLogEncounters, writeReport } from './report.ts';
+import { ByteRange, scanTimeRange, TimeRange } from '../parser/lines.ts';
+import { EncounterWindow, toWindowId } from './windows.ts';
+import { CustomEvent, LineMatcher } from '../parser/matchers.ts';
+import type { CharacterClass } from './classes.ts';
+
+/**
+ * Type representing a single log file which is part of a log session.
+ */
+export type LogFile = {
+    /**
+     * The name of the log file.
+     */
+    name: string;
+
+    /**
+     * The name of the player who generated this log file, if known.
+     */
+    loggedBy: string | undefined;
+
+    /**
+     * The timestamp of the first event in this log file.
+     */
+    start: number | undefined;
+
+    /**
+     * The timestamp of the last event in this log file.
+     */
+    end: number | undefined;
+
+    /**
+     * The number of bytes we've parsed from this log file.
+     */
+    current: number;
+
+    /**
+     * The total number of bytes in this log file.
+     */
+    total: number;
+
+    /**
+     * Have we finished parsing this log file?
+     */
+    done: boolean;
+
+    /**
+     * The error which occurred while parsing this log file, if any.
+     */
+    error: LogError | undefined;
+};
+
+/**
+ * Type representing an error which occurred while parsing a log file.
+ */
+export type LogError = {
+    /**
+     * The kind of error which occurred.
+     */
+    code: ErrorCode;
+
+    /**
+     * A description of the error.
+     */
+    message: string;
+};
+
+/**
+ * Type representing a file which has been selected, but not parsed yet.
+ */
+export type PendingFile = {
+    /**
+     * The selected file.
+     */
+    file: File;
+
+    /**
+     * Is this file a report (rather than a raw text log)?
+     */
+    isReport: boolean;
+
+    /**
+     * The range of time covered by this file, if it is a raw text log.
+     */
+    range: TimeRange;
+};
+
+/**
+ * Type representing an encounter which was parsed as part of a log session.
+ */
+export type LogEncounter = Encounter & {
+    /**
+     * The log files which this encounter was parsed from.
+     */
+    sources: LogFile[];
+
+    /**
+     * The range of bytes covering this encounter's lines within each log file it was parsed from, in
+     * the same order as the log files, so that the encounter can be parsed again without reading
+     * the whole of each file. Undefined for log files where the range isn't known.
+     */
+    bytes?: (ByteRange | undefined)[];
+
+    /**
+     * Is this encounter still in progress in the log file being watched?
+     */
+    live?: boolean;
+
+    /**
+     * The custom events which user-defined line matchers found during this encounter.
+     */
+    custom?: CustomEvent[];
+
+    /**
+     * If this encounter was merged from a range of consecutive encounters, or only covers a window
+     * of time within an encounter, the id used for it in page urls (such as `3-7` or `5@30-90`).
+     */
+    segment?: string;
+
+    /**
+     * The timestamps of the phase markers the user placed in this encounter, in time order.
+     */
+    markers?: number[];
+};
 
 /**
  * State class representing an uploaded combat log.
+ *
+ * A log may be made up of several log files (for example, if several players logged the same raid),
+ * in which case the encounters from each file are combined into a single session.
  */
 export class Log {
+    /**
+     * The unique id of this log session, used to save it to (and load it from) browser storage.
+     */
+    id: string | undefined = undefined;
+
+    /**
+     * The log files included in this log.
+     */
+    files: LogFile[] = [];
+
+    /**
+     * The list of encounters from the parsed combat log files, sorted by start time.
+     *
+     * Each encounter keeps the id it was given when it was added to the log, so encounters parsed
+     * later (which may start earlier) don't change the ids of those already in the list.
+     */
+    encounters: LogEncounter[] = [];
+
+    /**
+     * Files which have been selected, and are waiting for the user to choose a time range to parse.
+     */
+    pending: PendingFile[] = [];
+
+    /**
+     * Are we reading the time range covered by the selected files?
+     */
+    scanning = false;
+
+    /**
+     * The range of time being parsed from each log file, or undefined to parse the whole file.
+     */
+    range: TimeRange | undefined = undefined;
+
+    /**
+     * The log file which is being watched for new lines, if any.
+     */
+    watching: LogFile | undefined = undefined;
+
+    /**
+     * The user-defined line matchers which are run against each line when parsing a log file.
+     */
+    matchers: LineMatcher[] = getLineMatchers();
+
+    /**
+     * The classes the user chose for characters, keyed by character name, which override the
+     * classes detected from what they did during each encounter.
+     */
+    classes: Record<string, CharacterClass> = getCharacterClasses();
+
+    /**
+     * The owners the user assigned to pets whose owner the log didn't reveal, keyed by pet name.
+     */
+    petOwners: Record<string, string> = getPetOwners();
+
+    /**
+     * A summary of each log session saved in browser storage, most recently saved first.
+     */
+    sessions: SessionSummary[] = [];
+
+    /**
+     * The id of a saved session which we are opening from browser storage, if any.
+     */
+    loading: string | undefined = undefined;
+
+    /**
+     * The id of the saved session which was open before the page was reloaded, if any.
+     */
+    restorable: string | undefined = getCurrentSessionId();
+
+    /**
+     * A description of the last error which occurred while saving, opening, listing or deleting log
+     * sessions in browser storage, if it hasn't been dismissed.
+     */
+    storageError: string | undefined = undefined;
+
+    /**
+     * The file which each log file in this session was read from (or a handle to the file, if it's
+     * being watched), so that it can be parsed again.
+     */
+    private handles = new Map<LogFile, File | FileSystemFileHandle>();
+
+    /**
+     * The worker which is currently parsing each log file.
+     */
+    private workers = new Map<LogFile, Worker>();
+
+    /**
+     * The id to give the next encounter added to the log.
+     */
+    private nextId = 0;
+
+    /**
+     * Windows of time within each encounter which have been parsed again, keyed by window id.
+     */
+    private windows = new WeakMap<LogEncounter, Map<string, Promise<LogEncounter>>>();
+
+    /**
+     * Segments of consecutive encounters which have been merged, keyed by segment id, along with
+     * the encounters each was merged from.
+     */
+    private segments = new Map<string, { parts: LogEncounter[]; encounter: LogEncounter }>();
+
+    /**
+     * Construct a log state object.
+     */
+    constructor() {
+        makeAutoObservable<Log, 'handles' | 'workers' | 'windows' | 'segments' | 'nextId'>(this, {
+            handles: false,
+            workers: false,
+            windows: false,
+            segments: false,
+            nextId: false,
+        });
+    }
+
     /**
      * The timestamp of the start time for this combat log.
      */
-    start: number | undefined = undefined;
+    get start(): number | undefined {
+        return min(this.files.map((it) => it.start));
+    }
 
     /**
      * The timestamp of the end time for this combat log.
      */
-    end: number | undefined = undefined;
+    get end(): number | undefined {
+        return max(this.files.map((it) => it.end));
+    }
 
     /**
-     * The name of the logging player.
+     * The name of the logging player, or a list of names if several players contributed logs.
      */
-    loggedBy: string | undefined = undefined;
+    get loggedBy(): string | undefined {
+        const names = uniq(this.files.map((it) => it.loggedBy).filter((it) => it !== undefined));
+        return names.length ? names.join(', ') : undefined;
+    }
 
     /**
-     * The progress we've made parsing the combat log, as a percent from 0-100.
+     * The progress we've made parsing the combat log files, as a percent from 0-100.
      *
      * Undefined if we are not currently parsing a combat log.
      */
-    progress: number | undefined = undefined;
+    get progress(): number | undefined {
+        if (!this.files.length) return undefined;
+        const total = sumBy(this.files, (it) => it.total);
+        if (!total) return 0;
+        const progress = round((sumBy(this.files, (it) => it.current) / total) * 100);
+
+        // we aren't done until every worker has reported back, even if the line counts add up.
+        return every(this.files, (it) => it.done) ? progress : Math.min(progress, 99);
+    }
 
     /**
-     * The list of encounters from a parsed combat log.
+     * The log files which could not be parsed.
      */
-    encounters: Encounter[] = [];
+    get errors(): LogFile[] {
+        return this.files.filter((it) => it.error !== undefined);
+    }
 
     /**
-     * Construct a log state object.
+     * The range of time covered by the pending files.
      */
-    constructor() {
-        makeAutoObservable(this);
+    get pendingRange(): TimeRange {
+        return {
+            from: min(this.pending.map((it) => it.range.from)),
+            to: max(this.pending.map((it) => it.range.to)),
+        };
     }
 
     /**
-     * Parse a log file, adding any encounters found to the log state.
+     * Find an encounter by its id.
+     *
+     * @param id the encounter id
+     */
+    findEncounter(id: number): LogEncounter | undefined {
+        return this.encounters.find((it) => it.id === id);
+    }
+
+    /**
+     * Get an encounter by the id used in its page url.
+     *
+     * The id is either a single encounter id, or a range of encounter ids (such as `3-7`), in which
+     * case the encounters from the first to the last (in time order) are merged into a single
+     * segment.
+     *
+     * @param id the encounter id, or range of encounter ids
+     */
+    getEncounter(id: string): LogEncounter | undefined {
+        const [from, to] = id.split(`-`).map((it) => parseInt(it));
+        if (to === undefined) return this.findEncounter(from);
+
+        const first = this.encounters.findIndex((it) => it.id === from);
+        const last = this.encounters.findIndex((it) => it.id === to);
+        if (first < 0 || last <= first) return undefined;
+
+        // merging a segment is expensive, so we only do it again if its encounters have changed.
+        const parts = this.encounters.slice(first, last + 1);
+        const cached = this.segments.get(id);
+        if (
+            cached?.parts.length === parts.length &&
+            every(parts, (it, i) => it === cached.parts[i])
+        )
+            return cached.encounter;
+
+        const encounter = Object.assign(joinEncounters(parts), { segment: `${from}-${to}` });
+        this.segments.set(id, { parts, encounter });
+        return encounter;
+    }
+
+    /**
+     * Get a window of time within an encounter, parsing the encounter's lines within the window
+     * again from the log files it was parsed from.
+     *
+     * Each window is only parsed once. If the window fails to parse (for example, if the log files
+     * aren't available), asking for it again tries again.
+     *
+     * @param encounter the whole encounter
+     * @param window the window, in seconds from the start of the encounter
+     */
+    getWindow(encounter: LogEncounter, window: EncounterWindow): Promise<LogEncounter> {
+        const id = toWindowId(encounter.segment ?? encounter.id, window);
+        const windows = this.windows.get(encounter) ?? new Map<string, Promise<LogEncounter>>();
+        this.windows.set(encounter, windows);
+
+        const cached = windows.get(id);
+        if (cached) return cached;
+
+        const from = encounter.start + window.from * 1000;
+        const to = Math.min(encounter.end, encounter.start + window.to * 1000);
+        const result = this.reparse(encounter, { from, to }).then((encounters) => {
+            if (!encounters.length) throw new Error(`nothing happened during this window`);
+
+            // the window covers exactly the time selected, even if nothing happened at its edges.
+            return Object.assign(joinEncounters(encounters), {
+                start: from,
+                end: to,
+                duration: to - from,
+                segment: id,
+                markers: encounter.markers?.filter((it) => it >= from && it <= to),
+            });
+        });
+        result.catch(() => windows.delete(id));
+        windows.set(id, result);
+        return result;
+    }
+
+    /**
+     * Get the log files an encounter was parsed from which are no longer available to read again,
+     * such as after the page was reloaded.
+     *
+     * @param encounter the encounter
+     */
+    missingSources(encounter: LogEncounter): LogFile[] {
+        return encounter.sources.filter((it) => !this.handles.has(it));
+    }
+
+    /**
+     * Provide log files again, so that the encounters parsed from them can be read again.
+     *
+     * Files are matched to the log files in the session by name.
+     *
+     * @param files the files
+     * @returns the number of files which matched a log file in the session
+     */
+    locateFiles(files: File[]) {
+        let located = 0;
+        files.forEach((file) => {
+            const logFile = this.files.find((it) => it.name === file.name && !this.handles.has(it));
+            if (!logFile) return;
+            this.handles.set(logFile, file);
+            located++;
+        });
+        return located;
+    }
+
+    /**
+     * Split an encounter in two at the provided timestamp.
+     *
+     * The encounter's lines are parsed again from the log files it came from, once for the lines
+     * before the timestamp and once for the lines after it, so the parser may find more than one
+     * encounter on either side. The first encounter found keeps the id of the encounter that was
+     * split.
+     *
+     * @param id the id of the encounter to split
+     * @param timestamp the timestamp to split the encounter at
+     */
+    splitEncounter(id: number, timestamp: number) {
+        const encounter = this.findEncounter(id);
+        if (!encounter) return Promise.resolve();
+        return Promise.all([
+            this.reparse(encounter, { from: encounter.start, to: timestamp - 1 }),
+            this.reparse(encounter, { from: timestamp, to: encounter.end }),
+        ]).then(([before, after]) =>
+            runInAction(() => {
+                // the log may have been cleared (or changed) while we were parsing.
+                const index = this.encounters.indexOf(encounter);
+                if (index < 0) return;
+                this.encounters.splice(index, 1);
+                [...before, ...after].forEach((it, index) => {
+                    it.markers = encounter.markers?.filter((m) => m >= it.start && m <= it.end);
+                    this.insertEncounter(it, index ? undefined : id);
+                });
+                this.save();
+            }),
+        );
+    }
+
+    /**
+     * Join an encounter with the encounter after it, for when the parser split a single fight in
+     * two. The joined encounter keeps the id of the first encounter.
+     *
+     * @param id the id of the first encounter to join
+     */
+    @action
+    joinEncounter(id: number) {
+        const index = this.encounters.findIndex((it) => it.id === id);
+        const group = this.encounters.slice(index, index + 2);
+        if (index < 0 || group.length < 2) return;
+        this.encounters.splice(index, 2, Object.assign(joinEncounters(group), { id }));
+        this.save();
+    }
+
+    /**
+     * Place a phase marker in an encounter.
+     *
+     * @param id the id of the encounter
+     * @param timestamp the timestamp to place the marker at
+     */
+    @action
+    addMarker(id: number, timestamp: number) {
+        const encounter = this.findEncounter(id);
+        if (!encounter || encounter.markers?.includes(timestamp)) return;
+        encounter.markers = sortBy([...(encounter.markers ?? []), timestamp]);
+        this.save();
+    }
+
+    /**
+     * Remove a phase marker from an encounter.
+     *
+     * @param id the id of the encounter
+     * @param timestamp the timestamp of the marker
+     */
+    @action
+    removeMarker(id: number, timestamp: number) {
+        const encounter = this.findEncounter(id);
+        if (!encounter?.markers) return;
+        encounter.markers = encounter.markers.filter((it) => it !== timestamp);
+        this.save();
+    }
+
+    /**
+     * Parse part of an encounter again from the log files it was parsed from.
+     *
+     * Only the bytes covering the encounter are read from each log file, if we know where they are.
+     *
+     * @param encounter the encounter
+     * @param range the range of time to parse
+     * @private
+     */
+    private reparse(encounter: LogEncounter, range: TimeRange) {
+        return Promise.all(
+            encounter.sources.map((logFile, index) => {
+                const handle = this.handles.get(logFile);
+                if (!handle) return Promise.reject(new Error(`${logFile.name} isn't available`));
+                return (handle instanceof File ? Promise.resolve(handle) : handle.getFile()).then(
+                    (file) => this.parseRange(file, logFile, range, encounter.bytes?.[index]),
+                );
+            }),
+        ).then((parsed) => mergeSameEncounters(sortBy(flatMap(parsed), (it) => it.start)));
+    }
+
+    /**
+     * Parse a range of time from a log file in a separate worker, without adding the encounters
+     * found to the log state.
      *
      * @param file the file to parse
+     * @param logFile the log file entry for the file
+     * @param range the range of time to parse
+     * @param bytes the range of bytes in the file to read, or undefined to read the whole file
+     * @private
      */
-    parseFile(file: File) {
-        runInAction(() => {
-            this.encounters = [];
-            this.progress = 0;
+    private parseRange(file: File, logFile: LogFile, range: TimeRange, bytes?: ByteRange) {
+        return new Promise<LogEncounter[]>((resolve, reject) => {
+            const worker = new Worker(new URL('../parser/worker.ts', import.meta.url), {
+                type: 'module',
+            });
+            const encounters: LogEncounter[] = [];
+            worker.onmessage = (
+                e: MessageEvent<
+                    EncounterMessage | MetadataMessage | ErrorMessage | ProgressMessage
+                >,
+            ) => {
+                const message = e.data;
+                switch (message.type) {
+                    case 'encounter':
+                        encounters.push(
+                            Object.assign(message.encounter, {
+                                sources: [logFile],
+                                bytes: [message.bytes],
+                                custom: message.custom,
+                            }),
+                        );
+                        break;
+                    case 'metadata':
+                        worker.terminate();
+                        resolve(encounters);
+                        break;
+                    case 'error':
+                        worker.terminate();
+                        reject(new Error(message.message));
+                        break;
+                }
+            };
+            worker.onerror = (e) => {
+                e.preventDefault();
+                worker.terminate();
+                reject(new Error(`the parser crashed while reading ${logFile.name}: ${e.message}`));
+            };
+
+            const request: ParseRequest = {
+                file,
+                player: logFile.loggedBy,
+                range,
+                bytes,
+                matchers: toJS(this.matchers),
+            };
+            worker.postMessage(request);
+        });
+    }
+
+    /**
+     * Select a list of log files (or report files) to parse, replacing any existing session.
+     *
+     * The time range covered by each log file is read, so that the user can choose which part of the
+     * log to parse. If only reports were selected, they are imported straight away.
+     *
+     * @param files the selected files
+     */
+    @action
+    selectFiles(files: File[]) {
+        this.clear();
+        const id = (this.id = nanoid());
+        this.scanning = true;
+        Promise.all(
+            files.map(async (file): Promise<PendingFile> => {
+                const isReport = await isReportFile(file).catch(() => false);
+                const range = isReport
+                    ? { from: undefined, to: undefined }
+                    : await scanTimeRange(file).catch(() => ({ from: undefined, to: undefined }));
+                return { file, isReport, range };
+            }),
+        ).then((pending) =>
+            runInAction(() => {
+                // the selection may have been cancelled (or replaced) while we were reading.
+                if (this.id !== id) return;
+                this.scanning = false;
+                if (pending.every((it) => it.isReport)) this.parseFiles(files);
+                else this.pending = pending;
+            }),
+        );
+    }
+
+    /**
+     * Parse the pending files, skipping anything outside of the provided time range.
+     *
+     * @param range the range of time to parse, or undefined to parse everything
+     */
+    @action
+    parsePending(range?: TimeRange) {
+        this.parseFiles(
+            this.pending.map((it) => it.file),
+            range,
+        );
+    }
+
+    /**
+     * Parse a list of log files (or report files) into a single log session, replacing any
+     * existing session.
+     *
+     * @param files the files to parse
+     * @param range the range of time to parse, or undefined to parse everything
+     */
+    @action
+    parseFiles(files: File[], range?: TimeRange) {
+        this.clear();
+        this.id = nanoid();
+        this.range = range;
+        files.forEach((file) => this.readFile(file, this.addFile(file)));
+    }
+
+    /**
+     * Watch a log file which is still being written, replacing any existing session.
+     *
+     * Encounters are added to the log as they are parsed, and the encounter which is in progress is
+     * kept up to date until we stop watching the file.
+     *
+     * @param handle a handle to the log file
+     */
+    @action
+    watchFile(handle: FileSystemFileHandle) {
+        this.clear();
+        this.id = nanoid();
+        const logFile = this.addFile(handle);
+        this.watching = logFile;
+        this.watch(handle, logFile);
+    }
+
+    /**
+     * Stop watching the log file being watched, keeping everything parsed from it so far.
+     */
+    @action
+    stopWatching() {
+        const file = this.watching;
+        if (!file) return;
+        this.watching = undefined;
+        this.stopWorker(file);
+        this.encounters.forEach((it) => delete it.live);
+        this.finish();
+    }
+
+    /**
+     * Add a user-defined line matcher, which is used when parsing log files from now on.
+     *
+     * @param matcher the line matcher
+     */
+    @action
+    addMatcher(matcher: LineMatcher) {
+        this.matchers.push(matcher);
+        setLineMatchers(toJS(this.matchers));
+    }
+
+    /**
+     * Remove a user-defined line matcher.
+     *
+     * @param index the index of the line matcher to remove
+     */
+    @action
+    removeMatcher(index: number) {
+        this.matchers.splice(index, 1);
+        setLineMatchers(toJS(this.matchers));
+    }
+
+    /**
+     * Choose the class of a character, overriding the class detected from what they did during each
+     * encounter.
+     *
+     * @param name the name of the character
+     * @param characterClass the class, or undefined to go back to the detected class
+     */
+    @action
+    setCharacterClass(name: string, characterClass: CharacterClass | undefined) {
+        if (characterClass) this.classes[name] = characterClass;
+        else delete this.classes[name];
+        setCharacterClasses(toJS(this.classes));
+    }
+
+    /**
+     * Assign a pet to an owner, for pets whose owner the log didn't reveal.
+     *
+     * @param pet the name of the pet
+     * @param owner the name of the owner, or undefined to go back to the owner found in the log
+     */
+    @action
+    setPetOwner(pet: string, owner: string | undefined) {
+        if (owner) this.petOwners[pet] = owner;
+        else delete this.petOwners[pet];
+        setPetOwners(toJS(this.petOwners));
+    }
+
+    /**
+     * Parse a log file again after an error, discarding anything parsed from it the first time.
+     *
+     * @param logFile the log file to parse again
+     * @param player the name of the player who generated the log, if provided by the user
+     */
+    @action
+    retry(logFile: LogFile, player?: string) {
+        const file = this.handles.get(logFile);
+        if (!file) return;
+        this.removeEncounters(logFile);
+        Object.assign(logFile, { current: 0, total: 0, done: false, error: undefined });
+        if (file instanceof File) this.readFile(file, logFile, player);
+        else this.watch(file, logFile, player);
+    }
+
+    /**
+     * Cancel parsing the current log session, discarding anything parsed so far.
+     */
+    @action
+    cancel() {
+        this.clear();
+    }
+
+    /**
+     * Give up on the log files which could not be parsed, and continue with the rest of the log.
+     */
+    @action
+    ignoreErrors() {
+        this.errors.forEach((it) => {
+            this.removeEncounters(it);
+            this.files.splice(this.files.indexOf(it), 1);
         });
+        if (this.files.length) this.finish();
+        else this.clear();
+    }
+
+    /**
+     * Read a file, which may be either a raw text log or a report.
+     *
+     * @param file the file
+     * @param logFile the log file entry for the file
+     * @param player the name of the player who generated the log, if provided by the user
+     * @private
+     */
+    private readFile(file: File, logFile: LogFile, player?: string) {
+        isReportFile(file)
+            .then((isReport) => {
+                // the parse may have been cancelled while we were reading the file.
+                if (!this.handles.has(logFile)) return;
+                if (isReport) this.importReport(file, logFile);
+                else this.parseFile(file, logFile, player);
+            })
+            .catch(() =>
+                this.fail(logFile, {
+                    code: `unreadable-file`,
+                    message: `couldn't read ${file.name}`,
+                }),
+            );
+    }
+
+    /**
+     * Add a file that we're about to parse to the log session.
+     *
+     * @param file the file, or a handle to the file
+     * @private
+     */
+    private addFile(file: File | FileSystemFileHandle) {
+        this.files.push({
+            name: file.name,
+            loggedBy: undefined,
+            start: undefined,
+            end: undefined,
+            current: 0,
+            total: 0,
+            done: false,
+            error: undefined,
+        });
+        const logFile = this.files[this.files.length - 1];
+        this.handles.set(logFile, file);
+        return logFile;
+    }
+
+    /**
+     * Parse a log file, adding any encounters found to the log state.
+     *
+     * @param file the file to parse
+     * @param logFile the log file entry for the file
+     * @param player the name of the player who generated the log, if provided by the user
+     */
+    parseFile(file: File, logFile: LogFile, player?: string) {
+        const request: ParseRequest = {
+            file,
+            player,
+            range: toJS(this.range),
+            matchers: toJS(this.matchers),
+        };
+        this.startWorker(logFile, request);
+    }
 
+    /**
+     * Watch a log file for new lines, adding any encounters found to the log state.
+     *
+     * @param handle a handle to the log file
+     * @param logFile the log file entry for the file
+     * @param player the name of the player who generated the log, if provided by the user
+     * @private
+     */
+    private watch(handle: FileSystemFileHandle, logFile: LogFile, player?: string) {
+        const request: WatchRequest = { handle, player, matchers: toJS(this.matchers) };
+        this.startWorker(logFile, request);
+    }
+
+    /**
+     * Start a worker which parses a log file, handling each message it sends back.
+     *
+     * @param logFile the log file entry for the file
+     * @param request the request to send to the worker
+     * @private
+     */
+    private startWorker(logFile: LogFile, request: ParseRequest | WatchRequest) {
         const worker = new Worker(new URL('../parser/worker.ts', import.meta.url), {
             type: 'module',
         });
+        this.workers.get(logFile)?.terminate();
+        this.workers.set(logFile, worker);
 
         worker.onmessage = (
-            e: MessageEvent<EncounterMessage | MetadataMessage | ErrorMessage | ProgressMessage>,
+            e: MessageEvent<
+                EncounterMessage | LiveMessage | MetadataMessage | ErrorMessage | ProgressMessage
+            >,
         ) => {
+            // ignore anything sent by a worker that has since been cancelled.
+            if (this.workers.get(logFile) !== worker) return;
             const message = e.data;
             switch (message.type) {
                 case 'encounter':
-                    runInAction(() => this.encounters.push(message.encounter));
+                    runInAction(() => {
+                        // a complete encounter replaces the version of it that was in progress.
+                        const id = this.removeLive();
+                        this.addEncounter(message, logFile, id);
+                    });
+                    break;
+                case 'live':
+                    runInAction(() => {
+                        const id = this.removeLive();
+                        if (message.encounter)
+                            this.insertEncounter(
+                                Object.assign(message.encounter, {
+                                    sources: [logFile],
+                                    live: true,
+                                    custom: message.custom,
+                                }),
+                                id,
+                            );
+                    });
                     break;
                 case 'metadata':
                     runInAction(() => {
-                        this.loggedBy = message.loggedBy;
-                        this.end = message.end;
-                        this.start = message.start;
+                        logFile.loggedBy = message.loggedBy;
+                        logFile.end = message.end;
+                        logFile.start = message.start;
+                        this.finishFile(logFile);
                     });
                     break;
                 case 'error':
-                    // todo: error handling
+                    this.fail(logFile, { code: message.code, message: message.message });
                     break;
                 case 'progress':
                     runInAction(() => {
-                        this.progress = round((message.current / message.total) * 100);
+                        logFile.current = message.current;
+                        logFile.total = message.total;
                     });
                     break;
             }
         };
 
-        worker.postMessage(file);
+        worker.onerror = (e) => {
+            e.preventDefault();
+            if (this.workers.get(logFile) !== worker) return;
+            this.fail(logFile, {
+                code: `worker-crash`,
+                message: `the parser crashed while reading ${logFile.name}: ${e.message}`,
+            });
+        };
+
+        worker.postMessage(request);
+    }
+
+    /**
+     * Import a report file, adding the log files and encounters it contains to the log state.
+     *
+     * @param file the report file
+     * @param logFile the log file entry for the report file, which is replaced by the log files
+     * included in the report
+     */
+    importReport(file: File, logFile: LogFile) {
+        readReport(file)
+            .then((report) =>
+                runInAction(() => {
+                    if (!this.handles.has(logFile)) return;
+                    const index = this.files.indexOf(logFile);
+                    const count = report.files.length;
+                    this.files.splice(
+                        index,
+                        1,
+                        ...report.files.map((it) => ({ ...it, done: true })),
+                    );
+                    toLogEncounters(report, this.files.slice(index, index + count)).forEach((it) =>
+                        this.insertEncounter(it),
+                    );
+                    this.finish();
+                }),
+            )
+            .catch((e) =>
+                this.fail(logFile, {
+                    code: `invalid-report`,
+                    message: e instanceof ReportError ? e.message : `couldn't read ${file.name}`,
+                }),
+            );
+    }
+
+    /**
+     * Export a report containing the log session metadata and the provided encounters.
+     *
+     * @param ids the ids of the encounters to include
+     */
+    exportReport(ids: number[]) {
+        // the files and encounters are copied together, so each encounter still refers to the same
+        // copy of the log files it was parsed from.
+        const { files, encounters } = toJS({
+            files: this.files,
+            encounters: this.encounters.filter((it) => ids.includes(it.id)),
+        });
+        return writeReport(files, encounters);
+    }
+
+    /**
+     * Add an encounter parsed from a log file to the log, keeping the encounter list sorted by start
+     * time.
+     *
+     * @param message the message containing the encounter
+     * @param file the log file that the encounter was parsed from
+     * @param id the id to give the encounter, or undefined to give it a new id
+     * @private
+     */
+    private addEncounter(message: EncounterMessage, file: LogFile, id?: number) {
+        const { encounter, custom, bytes } = message;
+        this.insertEncounter(
+            Object.assign(encounter, { sources: [file], bytes: [bytes], custom }),
+            id,
+        );
+    }
+
+    /**
+     * Insert a log encounter into the encounter list, keeping the list sorted by start time.
+     *
+     * @param encounter the encounter to insert
+     * @param id the id to give the encounter, or undefined to give it a new id
+     * @private
+     */
+    private insertEncounter(encounter: LogEncounter, id = this.nextId++) {
+        encounter.id = id;
+        const index = sortedLastIndexBy(this.encounters, encounter, (it) => it.start);
+        this.encounters.splice(index, 0, encounter);
+    }
+
+    /**
+     * Remove each encounter that was parsed from a log file.
+     *
+     * @param file the log file
+     * @private
+     */
+    private removeEncounters(file: LogFile) {
+        this.encounters = this.encounters.filter((it) => !it.sources.includes(file));
+    }
+
+    /**
+     * Remove the encounter which is in progress in the log file being watched, if there is one.
+     *
+     * @returns the id of the encounter which was removed, so that it can be reused once the
+     * encounter is complete
+     * @private
+     */
+    private removeLive() {
+        const live = this.encounters.find((it) => it.live);
+        if (!live) return undefined;
+        this.encounters = this.encounters.filter((it) => !it.live);
+        return live.id;
+    }
+
+    /**
+     * Mark a log file as failed.
+     *
+     * @param file the log file
+     * @param error the error which occurred while parsing the log file
+     * @private
+     */
+    private fail(file: LogFile, error: LogError) {
+        if (!this.handles.has(file)) return;
+        runInAction(() => {
+            file.error = error;
+            this.stopWorker(file);
+            this.finishFile(file);
+        });
+    }
+
+    /**
+     * Mark a log file as parsed.
+     *
+     * A log file which is being watched has been parsed once we've caught up with the end of it, but
+     * its worker keeps running so that new lines are parsed.
+     *
+     * @param file the log file
+     * @private
+     */
+    private finishFile(file: LogFile) {
+        if (file !== this.watching) this.stopWorker(file);
+        file.done = true;
+        this.finish();
+    }
+
+    /**
+     * Terminate the worker which is parsing a log file, if there is one.
+     *
+     * @param file the log file
+     * @private
+     */
+    private stopWorker(file: LogFile) {
+        this.workers.get(file)?.terminate();
+        this.workers.delete(file);
+    }
+
+    /**
+     * Once every file has been parsed, combine the log session and save it to browser storage.
+     *
+     * If any file could not be parsed, we wait until the user has retried or ignored it. If a file is
+     * being watched, we wait until we stop watching it.
+     *
+     * @private
+     */
+    private finish() {
+        if (!every(this.files, (it) => it.done) || this.errors.length || this.watching) return;
+        this.combinePerspectives();
+        this.save();
+    }
+
+    /**
+     * Merge encounters which describe the same fight from the perspective of different log files
+     * into a single encounter.
+     *
+     * @private
+     */
+    private combinePerspectives() {
+        if (this.files.length < 2) return;
+        this.encounters = mergeSameEncounters(this.encounters);
+    }
+
+    /**
+     * Save this log session to browser storage, so that it can be reopened later.
+     *
+     * @private
+     */
+    private save() {
+        const id = this.id;
+        if (!id) return;
+        setCurrentSessionId(id);
+
+        // the log files are stored once, so each encounter refers to its log files by index.
+        const files = this.files;
+        const encounters = this.encounters.map((it) => ({
+            ...it,
+            sources: it.sources.map((source) => files.indexOf(source)),
+        }));
+        saveSession(toJS({ id, files, encounters }))
+            .then(() => this.loadSessions())
+            .catch(() =>
+                this.failStorage(`couldn't save this log in your browser, so it can't be reopened`),
+            );
+    }
+
+    /**
+     * Load a summary of each log session saved in browser storage.
+     */
+    loadSessions() {
+        return listSessions()
+            .then((sessions) => runInAction(() => (this.sessions = sessions)))
+            .catch(() => this.failStorage(`couldn't list the logs saved in your browser`));
+    }
+
+    /**
+     * Open a log session from browser storage, replacing the current session.
+     *
+     * @param id the id of the session to open
+     */
+    @action
+    open(id: string) {
+        this.clear();
+        this.loading = id;
+        return loadSession(id)
+            .catch(() => this.failStorage(`couldn't open the saved log`))
+            .then((session) =>
+                runInAction(() => {
+                    // another session may have been opened (or parsed) while we were loading.
+                    if (this.loading !== id) return;
+                    this.loading = undefined;
+                    if (!session) return setCurrentSessionId(undefined);
+                    this.id = session.id;
+                    this.files = session.files;
+                    this.encounters = session.encounters.map((it) => ({
+                        ...it,
+                        sources: it.sources
+                            .map((index) => this.files[index])
+                            .filter((file) => file !== undefined),
+                    }));
+                    this.nextId = (max(session.encounters.map((it) => it.id)) ?? -1) + 1;
+                    setCurrentSessionId(id);
+                }),
+            );
+    }
+
+    /**
+     * Reopen the log session that was open before the page was reloaded, if there was one.
+     */
+    restore() {
+        if (this.restorable && !this.loading && !this.encounters.length)
+            return this.open(this.restorable);
+    }
+
+    /**
+     * Delete a log session from browser storage.
+     *
+     * @param id the id of the session to delete
+     */
+    remove(id: string) {
+        if (this.id === id) setCurrentSessionId(undefined);
+        return deleteSession(id)
+            .then(() => this.loadSessions())
+            .catch(() => this.failStorage(`couldn't delete the saved log`));
+    }
+
+    /**
+     * Dismiss the last browser storage error.
+     */
+    @action
+    dismissStorageError() {
+        this.storageError = undefined;
+    }
+
+    /**
+     * Record an error which occurred while using browser storage, so that it can be shown to the
+     * user.
+     *
+     * @param message a description of the error
+     * @private
+     */
+    private failStorage(message: string) {
+        runInAction(() => (this.storageError = message));
+        return undefined;
     }
 
     @action
     clear(): void {
-        this.start = undefined;
-        this.end = undefined;
-        this.progress = undefined;
-        this.loggedBy = undefined;
+        this.id = undefined;
+        this.nextId = 0;
+        this.loading = undefined;
+        this.restorable = undefined;
+        this.files = [];
         this.encounters = [];
+        this.pending = [];
+        this.scanning = false;
+        this.range = undefined;
+        this.watching = undefined;
+        this.handles.clear();
+        this.segments.clear();
+        this.workers.forEach((it) => it.terminate());
+        this.workers.clear();
+        setCurrentSessionId(undefined);
     }
 }
 
+/**
+ * Can the provided encounter be merged with encounters parsed from other log files?
+ *
+ * Encounters imported from a report may already have been combined, and can't be merged again.
+ *
+ * @param encounter the encounter
+ */
+const isMergeable = (encounter: Encounter) => !isCombined(encounter);
+
+/**
+ * Merge encounters which describe the same fight from the perspective of different log files into
+ * a single encounter.
+ *
+ * @param encounters the encounters, in time order
+ */
+const mergeSameEncounters = (encounters: LogEncounter[]) => {
+    const groups: LogEncounter[][] = [];
+    encounters.forEach((encounter) => {
+        if (!isMergeable(encounter)) return groups.push([encounter]);
+        const group = groups.find(
+            (group) =>
+                isMergeable(group[0]) &&
+                group.every((it) => !intersection(it.sources, encounter.sources).length) &&
+                group.some((it) => isSameEncounter(it, encounter)),
+        );
+        if (group) group.push(encounter);
+        else groups.push([encounter]);
+    });
+
+    return groups.map((group): LogEncounter => {
+        if (group.length === 1) return group[0];
+        return Object.assign(mergePerspectives(group), {
+            id: group[0].id,
+            sources: flatMap(group, (it) => it.sources),
+            bytes: flatMap(group, (it) => it.sources.map((_, index) => it.bytes?.[index])),
+            custom: mergeCustomEvents(group),
+        });
+    });
+};
+
+/**
+ * Join consecutive encounters into a single encounter covering all of them.
+ *
+ * @param encounters the encounters, in time order
+ */
+const joinEncounters = (encounters: LogEncounter[]): LogEncounter => {
+    const sources = uniq(flatMap(encounters, (it) => it.sources));
+    return Object.assign(mergeSegment(encounters), {
+        sources,
+        bytes: sources.map((source) => joinBytes(encounters, source)),
+        custom: mergeCustomEvents(encounters),
+        markers: sortBy(uniq(flatMap(encounters, (it) => it.markers ?? []))),
+    });
+};
+
+/**
+ * Find the range of bytes in a log file covering the lines of several encounters, or undefined if
+ * it isn't known for every encounter parsed from the log file.
+ *
+ * @param encounters the encounters
+ * @param source the log file
+ */
+const joinBytes = (encounters: LogEncounter[], source: LogFile): ByteRange | undefined => {
+    const ranges = encounters
+        .filter((it) => it.sources.includes(source))
+        .map((it) => it.bytes?.[it.sources.indexOf(source)]);
+    if (!every(ranges)) return undefined;
+    return {
+        from: Math.min(...ranges.map((it) => it!.from)),
+        to: Math.max(...ranges.map((it) => it!.to)),
+    };
+};
+
+/**
+ * Combine the custom events found in several log files' perspectives of the same fight, including
+ * each line only once.
+ *
+ * @param encounters the encounters being merged
+ */
+const mergeCustomEvents = (encounters: LogEncounter[]) =>
+    sortBy(
+        uniqBy(
+            flatMap(encounters, (it) => it.custom ?? []),
+            (it) => `${it.timestamp}:${it.name}:${it.text}`,
+        ),
+        (it) => it.timestamp,
+    );
+
 /**
  * A log context.
  */
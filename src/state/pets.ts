@@ -0,0 +1,24 @@
+// module containing functions which work out the owner of each pet in an encounter.
+
+import { useContext } from 'react';
+import { EncounterEntityState, useEncounter } from './encounter.ts';
+import { LogContext } from './log.ts';
+
+/**
+ * Use a function which gets the owner of a pet in the current encounter, using the owner the user
+ * assigned to it if any, or the owner found in the log otherwise.
+ *
+ * The function returns undefined for entities which aren't pets.
+ */
+export const useOwnerOf = () => {
+    const log = useContext(LogContext);
+    const encounter = useEncounter();
+    return (entity: EncounterEntityState): EncounterEntityState | undefined => {
+        const assigned = log.petOwners[entity.name];
+        const owner =
+            assigned !== undefined
+                ? encounter.friends.find((it) => it.name === assigned && it !== entity && !it.isPet)
+                : undefined;
+        return owner ?? entity.owner;
+    };
+};
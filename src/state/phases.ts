@@ -0,0 +1,234 @@
+// module containing functions which split an encounter into phases.
+
+import { chain, maxBy, sortBy, sumBy } from 'lodash';
+import type EncounterState from './encounter.ts';
+import type { EncounterEntityState } from './encounter.ts';
+import { EncounterWindow } from './windows.ts';
+
+/**
+ * The shortest gap in the damage taken by the boss (in seconds) which is treated as a transition
+ * between two phases.
+ */
+const PHASE_GAP_SECONDS = 10;
+
+/**
+ * The shortest phase (in seconds) that we bother to show. Boundaries closer together than this are
+ * treated as a single boundary.
+ */
+const MIN_PHASE_SECONDS = 5;
+
+/**
+ * The share of the boss's damage taken that an enemy joining the fight partway through must take
+ * to start a new phase, so that small adds don't split the fight.
+ */
+const MIN_ENEMY_SHARE = 0.1;
+
+/**
+ * A pattern which matches the miss type of a melee swing against an immune target.
+ */
+const IMMUNE_MISS = /invulnerable|immune/i;
+
+/**
+ * The reason a phase boundary was placed.
+ *
+ * - `gap`: the boss stopped taking damage for a while.
+ * - `immune`: the boss became immune to damage.
+ * - `enemy`: a new enemy joined the fight.
+ * - `marker`: the user placed a phase marker.
+ */
+export type PhaseReason = `gap` | `immune` | `enemy` | `marker`;
+
+/**
+ * Type representing a phase of an encounter.
+ */
+export type Phase = EncounterWindow & {
+    /**
+     * The name of the phase, such as `phase 2` or `transition`.
+     */
+    name: string;
+
+    /**
+     * Why the phase started, or undefined for the first phase.
+     */
+    reason: PhaseReason | undefined;
+
+    /**
+     * Is this a transition, during which the boss wasn't taking damage?
+     */
+    isTransition: boolean;
+
+    /**
+     * The damage per second dealt by allies during the phase.
+     */
+    dps: number;
+};
+
+/**
+ * Type representing the start of a phase.
+ */
+type Boundary = {
+    /**
+     * The start of the phase, in seconds from the start of the encounter.
+     */
+    time: number;
+
+    /**
+     * Why the phase starts here.
+     */
+    reason: PhaseReason;
+
+    /**
+     * Is the phase starting here a transition?
+     */
+    isTransition: boolean;
+};
+
+/**
+ * Find the boss of an encounter, or the enemy which took the most damage if none of the enemies are
+ * known bosses.
+ *
+ * @param encounter the encounter
+ */
+const findBoss = (encounter: EncounterState): EncounterEntityState | undefined =>
+    encounter.enemies.find((it) => it.isBoss) ??
+    maxBy(
+        encounter.enemies.filter((it) => it.name !== `Unknown`),
+        (it) => it.damageTaken(),
+    );
+
+/**
+ * Find runs of at least a minimum number of consecutive seconds matching a condition.
+ *
+ * @param length the number of seconds in the encounter
+ * @param test the condition tested for each second
+ * @param minimum the shortest run to include
+ */
+const findRuns = (length: number, test: (second: number) => boolean, minimum: number) => {
+    const runs: EncounterWindow[] = [];
+    let from: number | undefined;
+    for (let second = 0; second <= length; second++) {
+        const matches = second < length && test(second);
+        if (matches && from === undefined) from = second;
+        if (!matches && from !== undefined) {
+            if (second - from >= minimum) runs.push({ from, to: second });
+            from = undefined;
+        }
+    }
+    return runs;
+};
+
+/**
+ * Find the points where phases of an encounter start, from gaps in the damage taken by the boss,
+ * windows where the boss was immune to damage and enemies which joined the fight partway through.
+ *
+ * @param encounter the encounter
+ * @param length the number of seconds in the encounter
+ */
+const detectBoundaries = (encounter: EncounterState, length: number): Boundary[] => {
+    const boss = findBoss(encounter);
+    if (!boss) return [];
+    const start = encounter.start.toMillis();
+    const toSecond = (timestamp: number) => Math.floor((timestamp - start) / 1000);
+
+    const damaged = new Set(
+        encounter
+            .dpsData(undefined, [boss.id])
+            .filter((it) => it.dps > 0)
+            .map((it) => it.time),
+    );
+    const immune = new Set(
+        encounter.events
+            .filter(
+                (it) =>
+                    it.type === `meleemiss` &&
+                    it.targetId === boss.id &&
+                    IMMUNE_MISS.test(it.missType),
+            )
+            .map((it) => toSecond(it.timestamp)),
+    );
+
+    // a run at the very start or end of the fight is just the pull or the kill, not a transition.
+    const transitions = [
+        ...findRuns(length, (it) => !damaged.has(it), PHASE_GAP_SECONDS).map((it) => ({
+            ...it,
+            reason: `gap` as const,
+        })),
+        ...findRuns(length, (it) => immune.has(it), MIN_PHASE_SECONDS).map((it) => ({
+            ...it,
+            reason: `immune` as const,
+        })),
+    ].filter((it) => it.from > 0 && it.to < length);
+
+    // enemies which show up well after the pull (big adds, or the boss changing form).
+    const enemies = chain(encounter.enemies)
+        .filter((it) => it.id !== boss.id && it.name !== `Unknown`)
+        .filter((it) => it.isBoss || it.damageTaken() >= boss.damageTaken() * MIN_ENEMY_SHARE)
+        .map((enemy) =>
+            encounter.events.find(
+                (it) => `sourceId` in it && (it.sourceId === enemy.id || it.targetId === enemy.id),
+            ),
+        )
+        .compact()
+        .map((it) => toSecond(it.timestamp))
+        .filter((it) => it >= MIN_PHASE_SECONDS && it < length)
+        .value();
+
+    return [
+        ...transitions.flatMap((it) => [
+            { time: it.from, reason: it.reason, isTransition: true },
+            { time: it.to, reason: it.reason, isTransition: false },
+        ]),
+        ...enemies.map((time) => ({ time, reason: `enemy` as const, isTransition: false })),
+    ];
+};
+
+/**
+ * Split an encounter into phases.
+ *
+ * Phases are detected automatically from gaps in the damage taken by the boss, windows where the
+ * boss was immune to damage and enemies which joined the fight partway through, and the user can
+ * place phase markers of their own.
+ *
+ * @param encounter the encounter
+ * @param markers the user-defined phase markers, in seconds from the start of the encounter
+ * @returns the phases of the encounter, in time order, or an empty list if it only has one phase
+ */
+export const detectPhases = (encounter: EncounterState, markers: number[] = []): Phase[] => {
+    const length = Math.ceil(encounter.duration.as(`seconds`));
+    const boundaries = sortBy(
+        [
+            ...detectBoundaries(encounter, length),
+            ...markers.map((time) => ({ time, reason: `marker` as const, isTransition: false })),
+        ].filter((it) => it.time > 0 && it.time < length),
+        (it) => it.time,
+    );
+
+    // boundaries which are very close together are the same change of phase, so keep the first.
+    const starts = boundaries.reduce<Boundary[]>((acc, val) => {
+        const previous = acc[acc.length - 1];
+        if (val.time - (previous?.time ?? 0) >= MIN_PHASE_SECONDS) acc.push(val);
+        return acc;
+    }, []);
+    if (!starts.length) return [];
+
+    const friends = encounter.friends.map((it) => it.id);
+    const dps = encounter.dpsData(friends);
+    let count = 0;
+    return [undefined, ...starts].map((boundary, index) => {
+        const from = boundary?.time ?? 0;
+        const to = starts[index]?.time ?? length;
+        const isTransition = boundary?.isTransition ?? false;
+        const damage = sumBy(
+            dps.filter((it) => it.time >= from && it.time < to),
+            (it) => it.dps,
+        );
+        return {
+            name: isTransition ? `transition` : `phase ${++count}`,
+            reason: boundary?.reason,
+            isTransition,
+            from,
+            to,
+            dps: damage / Math.max(1, to - from),
+        };
+    });
+};
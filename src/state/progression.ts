@@ -0,0 +1,82 @@
+// module containing functions which track progression across every pull of the same boss.
+
+import { max, sumBy, uniq, values } from 'lodash';
+import { LogEncounter } from './log.ts';
+import EncounterState from './encounter.ts';
+
+/**
+ * Type representing a single pull of a boss.
+ */
+export type BossPull = {
+    /**
+     * The encounter in which the boss was pulled.
+     */
+    encounter: LogEncounter;
+
+    /**
+     * Was the boss killed?
+     */
+    isKill: boolean;
+
+    /**
+     * The damage per second dealt by the raid (every ally) during the pull.
+     */
+    raidDps: number;
+
+    /**
+     * The damage dealt to the boss during the pull.
+     */
+    bossDamage: number;
+
+    /**
+     * The percent of the boss's health remaining at the end of the pull, if known.
+     *
+     * The logs don't include the boss's health, so it is estimated from the most damage the boss
+     * took during a kill. If the boss was never killed, this is undefined.
+     */
+    healthRemaining: number | undefined;
+};
+
+/**
+ * Get the names of the bosses in an encounter.
+ *
+ * @param encounter the encounter
+ */
+export const bossNamesOf = (encounter: LogEncounter) =>
+    uniq(
+        values(encounter.entities)
+            .filter((it) => it.isEnemy && it.isBoss)
+            .map((it) => it.name as string),
+    );
+
+/**
+ * Get every pull of a boss in a list of encounters, in time order.
+ *
+ * @param encounters the encounters, in time order
+ * @param name the name of the boss
+ */
+export const bossPulls = (encounters: LogEncounter[], name: string): BossPull[] => {
+    const pulls = encounters
+        .filter((it) => it.isBoss && bossNamesOf(it).includes(name))
+        .map((encounter) => {
+            const state = new EncounterState(encounter);
+            const seconds = Math.max(1, state.duration.as('seconds'));
+            return {
+                encounter,
+                isKill: !encounter.isFailed,
+                raidDps: sumBy(state.friends, (it) => it.damageDealt()) / seconds,
+                bossDamage: sumBy(
+                    state.enemies.filter((it) => it.name === name),
+                    (it) => it.damageTaken(),
+                ),
+            };
+        });
+
+    // the boss's health is estimated from the most damage it took while being killed.
+    const health = max(pulls.filter((it) => it.isKill).map((it) => it.bossDamage));
+    return pulls.map((it) => {
+        if (!health) return { ...it, healthRemaining: undefined };
+        const remaining = it.isKill ? 0 : Math.max(0, 100 - (it.bossDamage / health) * 100);
+        return { ...it, healthRemaining: remaining };
+    });
+};
@@ -0,0 +1,134 @@
+// module containing functions which export and import shareable, self-contained report files.
+
+import { Encounter } from '@aysi-e/thj-parser-lib';
+import { LogEncounter, LogFile } from './log.ts';
+
+/**
+ * The current version of the report format.
+ *
+ * This should be incremented whenever the report format changes in a way that older versions of the
+ * parser can't read.
+ */
+export const REPORT_VERSION = 1;
+
+/**
+ * The file extension used for report files.
+ */
+export const REPORT_EXTENSION = `.thjreport`;
+
+/**
+ * A value which identifies a decompressed file as a report.
+ */
+const REPORT_FORMAT = `thj-logs-report`;
+
+/**
+ * The first bytes of a gzip-compressed file.
+ */
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Type representing an encounter stored in a report.
+ */
+export type ReportEncounter = Encounter & {
+    /**
+     * The indices (in the report file list) of the log files that this encounter was parsed from.
+     */
+    sources: number[];
+};
+
+/**
+ * Type representing a serialized report.
+ */
+export type Report = {
+    /**
+     * Identifies this object as a report.
+     */
+    format: typeof REPORT_FORMAT;
+
+    /**
+     * The version of the report format.
+     */
+    version: number;
+
+    /**
+     * The log files that the report was created from.
+     */
+    files: LogFile[];
+
+    /**
+     * The encounters included in the report.
+     */
+    encounters: ReportEncounter[];
+};
+
+/**
+ * Error thrown when a report file can't be read.
+ */
+export class ReportError extends Error {}
+
+/**
+ * Compress a report into a report file.
+ *
+ * @param files the log files that the report was created from
+ * @param encounters the encounters to include in the report
+ */
+export const writeReport = (files: LogFile[], encounters: LogEncounter[]): Promise<Blob> => {
+    const report: Report = {
+        format: REPORT_FORMAT,
+        version: REPORT_VERSION,
+        files,
+        encounters: encounters.map((it) => ({
+            ...it,
+            sources: it.sources.map((source) => files.indexOf(source)),
+        })),
+    };
+
+    const stream = new Blob([JSON.stringify(report)])
+        .stream()
+        .pipeThrough(new CompressionStream(`gzip`));
+    return new Response(stream).blob();
+};
+
+/**
+ * Does the provided file look like a report file (rather than a raw text log)?
+ *
+ * @param file the file
+ */
+export const isReportFile = async (file: File) => {
+    const header = new Uint8Array(await file.slice(0, GZIP_MAGIC.length).arrayBuffer());
+    return GZIP_MAGIC.every((it, index) => header[index] === it);
+};
+
+/**
+ * Read a report file.
+ *
+ * @param file the report file
+ * @throws ReportError if the file is not a report, or was created by a newer version of the parser
+ */
+export const readReport = async (file: File): Promise<Report> => {
+    let report: Report;
+    try {
+        const stream = file.stream().pipeThrough(new DecompressionStream(`gzip`));
+        report = await new Response(stream).json();
+    } catch {
+        throw new ReportError(`${file.name} is not a valid report file`);
+    }
+
+    if (report?.format !== REPORT_FORMAT)
+        throw new ReportError(`${file.name} is not a valid report file`);
+    if (report.version > REPORT_VERSION)
+        throw new ReportError(`${file.name} was created by a newer version of the parser`);
+    return report;
+};
+
+/**
+ * Convert the encounters in a report back into log encounters.
+ *
+ * @param report the report
+ * @param files the log files for the report, in the same order as the report file list
+ */
+export const toLogEncounters = (report: Report, files: LogFile[]): LogEncounter[] =>
+    report.encounters.map((it) => ({
+        ...it,
+        sources: it.sources.map((index) => files[index]).filter((file) => file !== undefined),
+    }));
@@ -0,0 +1,73 @@
+import { makeAutoObservable } from 'mobx';
+import { createContext } from 'react';
+
+/**
+ * State class representing a selection of encounters from the encounter list.
+ */
+export class EncounterSelection {
+    /**
+     * Is the encounter list currently in selection mode?
+     */
+    active = false;
+
+    /**
+     * The ids of the selected encounters.
+     */
+    ids: number[] = [];
+
+    /**
+     * Construct an encounter selection state object.
+     */
+    constructor() {
+        makeAutoObservable(this);
+    }
+
+    /**
+     * Is the encounter with the provided id selected?
+     *
+     * @param id the encounter id
+     */
+    has(id: number) {
+        return this.ids.includes(id);
+    }
+
+    /**
+     * Start selecting encounters, with nothing selected.
+     */
+    start() {
+        this.active = true;
+        this.ids = [];
+    }
+
+    /**
+     * Stop selecting encounters, clearing the selection.
+     */
+    stop() {
+        this.active = false;
+        this.ids = [];
+    }
+
+    /**
+     * Select or deselect the encounter with the provided id.
+     *
+     * @param id the encounter id
+     */
+    toggle(id: number) {
+        if (this.has(id)) this.ids = this.ids.filter((it) => it !== id);
+        else this.ids = [...this.ids, id].sort((a, b) => a - b);
+    }
+
+    /**
+     * Select each of the provided encounter ids.
+     *
+     * @param ids the encounter ids
+     */
+    select(ids: number[]) {
+        this.ids = [...ids].sort((a, b) => a - b);
+    }
+}
+
+/**
+ * An encounter selection context.
+ */
+export const SelectionContext = createContext<EncounterSelection>(new EncounterSelection());
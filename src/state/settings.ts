@@ -0,0 +1,109 @@
+import { makeAutoObservable } from 'mobx';
+import { createContext } from 'react';
+import { getMeterSettings, setMeterSettings } from './storage.ts';
+
+/**
+ * The ways per-second values can be calculated for each entity.
+ *
+ * - `encounter`: over the whole encounter.
+ * - `present`: from the entity's first action to its last, for entities which joined partway
+ *   through the encounter (such as adds and pets) or died before it ended.
+ * - `active`: over the entity's active time.
+ */
+export type PerSecondMode = `encounter` | `present` | `active`;
+
+/**
+ * Each way per-second values can be calculated, in the order their columns are shown.
+ */
+export const PER_SECOND_MODES: PerSecondMode[] = [`encounter`, `present`, `active`];
+
+/**
+ * The gap tolerances the user can choose from, in seconds.
+ */
+export const GAP_TOLERANCES = [0, 2, 5, 10];
+
+/**
+ * State class representing the settings used by the damage and healing meters.
+ *
+ * Settings are saved to local storage whenever they change.
+ */
+export class MeterSettings {
+    /**
+     * The ways per-second values are calculated for each entity, each shown as its own column.
+     */
+    perSecond: PerSecondMode[];
+
+    /**
+     * The longest gap between two actions, in seconds, which still counts as active time.
+     */
+    gapTolerance: number;
+
+    /**
+     * Should the damage and healing of pets be rolled up into their owners' lines?
+     */
+    mergePets: boolean;
+
+    /**
+     * Construct a meter settings state object, loading any saved settings.
+     */
+    constructor() {
+        const saved = getMeterSettings();
+        this.perSecond = saved.perSecond?.length ? saved.perSecond : [`encounter`];
+        this.gapTolerance = saved.gapTolerance ?? 0;
+        this.mergePets = saved.mergePets ?? false;
+        makeAutoObservable(this);
+    }
+
+    /**
+     * Show or hide the column for a way of calculating per-second values. At least one column is
+     * always shown.
+     *
+     * @param mode the way of calculating per-second values
+     */
+    togglePerSecond(mode: PerSecondMode) {
+        const perSecond = this.perSecond.includes(mode)
+            ? this.perSecond.filter((it) => it !== mode)
+            : PER_SECOND_MODES.filter((it) => it === mode || this.perSecond.includes(it));
+        if (!perSecond.length) return;
+        this.perSecond = perSecond;
+        this.save();
+    }
+
+    /**
+     * Choose the longest gap between two actions which still counts as active time.
+     *
+     * @param seconds the gap tolerance, in seconds
+     */
+    setGapTolerance(seconds: number) {
+        this.gapTolerance = seconds;
+        this.save();
+    }
+
+    /**
+     * Choose whether the damage and healing of pets are rolled up into their owners' lines.
+     *
+     * @param mergePets should pets be rolled up into their owners?
+     */
+    setMergePets(mergePets: boolean) {
+        this.mergePets = mergePets;
+        this.save();
+    }
+
+    /**
+     * Save the settings to local storage.
+     *
+     * @private
+     */
+    private save() {
+        setMeterSettings({
+            perSecond: this.perSecond,
+            gapTolerance: this.gapTolerance,
+            mergePets: this.mergePets,
+        });
+    }
+}
+
+/**
+ * A meter settings context.
+ */
+export const MeterSettingsContext = createContext<MeterSettings>(new MeterSettings());
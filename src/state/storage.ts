@@ -0,0 +1,316 @@
+// module containing functions which save and load parsed log sessions using IndexedDB.
+
+import { LogEncounter, LogFile } from './log.ts';
+import { LineMatcher } from '../parser/matchers.ts';
+import { PerSecondMode } from './settings.ts';
+import { CharacterClass } from './classes.ts';
+
+/**
+ * The name of the IndexedDB database used to store log sessions.
+ */
+const DATABASE_NAME = `thj-logs`;
+
+/**
+ * The current version of the IndexedDB database.
+ */
+const DATABASE_VERSION = 1;
+
+/**
+ * The object store containing a summary of each saved session.
+ */
+const SUMMARY_STORE = `sessions`;
+
+/**
+ * The object store containing the parsed data for each saved session.
+ */
+const DATA_STORE = `data`;
+
+/**
+ * The local storage key used to remember which session was last opened.
+ */
+const CURRENT_SESSION_KEY = `thj-logs:current-session`;
+
+/**
+ * The local storage key used to store the classes the user chose for characters.
+ */
+const CHARACTER_CLASSES_KEY = `thj-logs:character-classes`;
+
+/**
+ * The local storage key used to store the owners the user assigned to pets.
+ */
+const PET_OWNERS_KEY = `thj-logs:pet-owners`;
+
+/**
+ * The local storage key used to store the meter settings.
+ */
+const METER_SETTINGS_KEY = `thj-logs:meter-settings`;
+
+/**
+ * The local storage key used to store the user-defined line matchers.
+ */
+const LINE_MATCHERS_KEY = `thj-logs:line-matchers`;
+
+/**
+ * Type representing a summary of a saved log session, used to list saved sessions without loading
+ * every encounter.
+ */
+export type SessionSummary = {
+    /**
+     * The unique id of the session.
+     */
+    id: string;
+
+    /**
+     * The timestamp of when the session was saved.
+     */
+    savedAt: number;
+
+    /**
+     * The log files included in the session.
+     */
+    files: LogFile[];
+
+    /**
+     * The number of encounters in the session.
+     */
+    encounters: number;
+};
+
+/**
+ * Type representing an encounter in a saved log session.
+ */
+export type SessionEncounter = Omit<LogEncounter, 'sources'> & {
+    /**
+     * The indices (in the session file list) of the log files that this encounter was parsed from.
+     */
+    sources: number[];
+};
+
+/**
+ * Type representing the parsed data for a saved log session.
+ */
+export type SessionData = {
+    /**
+     * The unique id of the session.
+     */
+    id: string;
+
+    /**
+     * The log files included in the session.
+     */
+    files: LogFile[];
+
+    /**
+     * The encounters parsed from the log files.
+     */
+    encounters: SessionEncounter[];
+};
+
+/**
+ * Wrap an IndexedDB request in a promise.
+ *
+ * @param request the request
+ */
+const toPromise = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Open the log session database, creating it if it does not exist yet.
+ */
+const openDatabase = () => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE))
+            db.createObjectStore(SUMMARY_STORE, { keyPath: `id` });
+        if (!db.objectStoreNames.contains(DATA_STORE))
+            db.createObjectStore(DATA_STORE, { keyPath: `id` });
+    };
+    return toPromise(request);
+};
+
+/**
+ * Run a function against the log session object stores within a single transaction, closing the
+ * database once the transaction is complete.
+ *
+ * @param mode the transaction mode
+ * @param fn the function to run
+ */
+const transaction = async <T>(
+    mode: IDBTransactionMode,
+    fn: (summaries: IDBObjectStore, data: IDBObjectStore) => Promise<T>,
+): Promise<T> => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction([SUMMARY_STORE, DATA_STORE], mode);
+        const done = new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+        const result = await fn(tx.objectStore(SUMMARY_STORE), tx.objectStore(DATA_STORE));
+        await done;
+        return result;
+    } finally {
+        db.close();
+    }
+};
+
+/**
+ * Save a parsed log session, replacing any existing session with the same id.
+ *
+ * @param session the session to save
+ */
+export const saveSession = (session: SessionData) =>
+    transaction(`readwrite`, async (summaries, data) => {
+        const summary: SessionSummary = {
+            id: session.id,
+            savedAt: Date.now(),
+            files: session.files,
+            encounters: session.encounters.length,
+        };
+        await Promise.all([toPromise(summaries.put(summary)), toPromise(data.put(session))]);
+    });
+
+/**
+ * Load a parsed log session.
+ *
+ * @param id the id of the session to load
+ */
+export const loadSession = (id: string) =>
+    transaction(`readonly`, (_, data) => toPromise<SessionData | undefined>(data.get(id)));
+
+/**
+ * List each saved log session, most recently saved first.
+ */
+export const listSessions = () =>
+    transaction(`readonly`, async (summaries) => {
+        const result = await toPromise<SessionSummary[]>(summaries.getAll());
+        return result.sort((a, b) => b.savedAt - a.savedAt);
+    });
+
+/**
+ * Delete a saved log session.
+ *
+ * @param id the id of the session to delete
+ */
+export const deleteSession = (id: string) =>
+    transaction(`readwrite`, async (summaries, data) => {
+        await Promise.all([toPromise(summaries.delete(id)), toPromise(data.delete(id))]);
+    });
+
+/**
+ * Get the id of the session that was last opened, if any.
+ */
+export const getCurrentSessionId = () => localStorage.getItem(CURRENT_SESSION_KEY) ?? undefined;
+
+/**
+ * Remember the id of the currently open session, so it can be reopened after a reload.
+ *
+ * @param id the session id, or undefined if no session is open
+ */
+export const setCurrentSessionId = (id: string | undefined) => {
+    if (id) localStorage.setItem(CURRENT_SESSION_KEY, id);
+    else localStorage.removeItem(CURRENT_SESSION_KEY);
+};
+
+/**
+ * Get the user-defined line matchers.
+ */
+export const getLineMatchers = (): LineMatcher[] => {
+    try {
+        return JSON.parse(localStorage.getItem(LINE_MATCHERS_KEY) ?? `[]`);
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Save the user-defined line matchers.
+ *
+ * @param matchers the line matchers
+ */
+export const setLineMatchers = (matchers: LineMatcher[]) => {
+    if (matchers.length) localStorage.setItem(LINE_MATCHERS_KEY, JSON.stringify(matchers));
+    else localStorage.removeItem(LINE_MATCHERS_KEY);
+};
+
+/**
+ * Type representing the settings used by the damage and healing meters.
+ */
+export type MeterSettingsData = {
+    /**
+     * The ways per-second values are calculated for each entity, each shown as its own column.
+     */
+    perSecond: PerSecondMode[];
+
+    /**
+     * The longest gap between two actions, in seconds, which still counts as active time.
+     */
+    gapTolerance: number;
+
+    /**
+     * Should the damage and healing of pets be rolled up into their owners' lines?
+     */
+    mergePets: boolean;
+};
+
+/**
+ * Get the meter settings, if any have been saved.
+ */
+export const getMeterSettings = (): Partial<MeterSettingsData> => {
+    try {
+        return JSON.parse(localStorage.getItem(METER_SETTINGS_KEY) ?? `{}`);
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Save the meter settings.
+ *
+ * @param settings the meter settings
+ */
+export const setMeterSettings = (settings: MeterSettingsData) =>
+    localStorage.setItem(METER_SETTINGS_KEY, JSON.stringify(settings));
+
+/**
+ * Get the classes the user chose for characters, keyed by character name.
+ */
+export const getCharacterClasses = (): Record<string, CharacterClass> => {
+    try {
+        return JSON.parse(localStorage.getItem(CHARACTER_CLASSES_KEY) ?? `{}`);
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Save the classes the user chose for characters.
+ *
+ * @param classes the classes, keyed by character name
+ */
+export const setCharacterClasses = (classes: Record<string, CharacterClass>) =>
+    localStorage.setItem(CHARACTER_CLASSES_KEY, JSON.stringify(classes));
+
+/**
+ * Get the owners the user assigned to pets, keyed by pet name.
+ */
+export const getPetOwners = (): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(PET_OWNERS_KEY) ?? `{}`);
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Save the owners the user assigned to pets.
+ *
+ * @param owners the owner names, keyed by pet name
+ */
+export const setPetOwners = (owners: Record<string, string>) =>
+    localStorage.setItem(PET_OWNERS_KEY, JSON.stringify(owners));
@@ -0,0 +1,139 @@
+// module containing functions which summarize characters across several encounters.
+
+import { sumBy } from 'lodash';
+import EncounterState, {
+    DamageBreakdownData,
+    EncounterEntityState,
+    HealingBreakdownData,
+    mergeDamageBreakdowns,
+    mergeHealingBreakdowns,
+} from './encounter.ts';
+
+/**
+ * Type representing a character's combined numbers across several encounters.
+ */
+export type CharacterSummary = {
+    /**
+     * The character in the first encounter they took part in.
+     */
+    entity: EncounterEntityState;
+
+    /**
+     * The name to display for the character.
+     */
+    displayName: string;
+
+    /**
+     * The number of encounters the character took part in.
+     */
+    encounters: number;
+
+    /**
+     * The damage dealt by the character, merged across each encounter.
+     */
+    damage: DamageBreakdownData;
+
+    /**
+     * The healing done by the character, merged across each encounter.
+     */
+    healing: HealingBreakdownData;
+
+    /**
+     * The number of times the character died.
+     */
+    deaths: number;
+
+    /**
+     * The combined duration of the encounters the character took part in, in seconds.
+     */
+    duration: number;
+
+    /**
+     * The combined number of seconds in which the character performed at least one action.
+     */
+    activeTime: number;
+
+    /**
+     * The character's damage per second, over the combined duration of their encounters.
+     */
+    dps: number;
+
+    /**
+     * The average of the character's damage per second in each encounter.
+     */
+    averageDps: number;
+
+    /**
+     * The character's healing per second, over the combined duration of their encounters.
+     */
+    hps: number;
+
+    /**
+     * The percent of the combined duration in which the character performed at least one action.
+     */
+    uptime: number;
+};
+
+/**
+ * Get a key identifying a character across encounters. Entity ids are only unique within a single
+ * encounter, so characters are matched by name (and pets by their owner's name too).
+ *
+ * @param entity the character
+ */
+const toCharacterKey = (entity: EncounterEntityState) =>
+    entity.isPet ? `${entity.name}#${entity.owner?.name}` : `${entity.name}`;
+
+/**
+ * Summarize each allied character across several encounters, sorted by damage dealt.
+ *
+ * @param encounters the encounters to summarize
+ * @param tolerance the longest gap between two actions, in seconds, which counts as active
+ */
+export const summarizeCharacters = (
+    encounters: EncounterState[],
+    tolerance = 0,
+): CharacterSummary[] => {
+    const byKey: Record<string, { entity: EncounterEntityState; seconds: number }[]> = {};
+    encounters.forEach((encounter) => {
+        const seconds = Math.max(1, encounter.duration.as('seconds'));
+        encounter.friends.forEach((entity) => {
+            const key = toCharacterKey(entity);
+            byKey[key] = [...(byKey[key] ?? []), { entity, seconds }];
+        });
+    });
+
+    return Object.values(byKey)
+        .map((appearances) => {
+            const entity = appearances[0].entity;
+            const damage = mergeDamageBreakdowns(
+                appearances.map((it) => it.entity.damageDealtBreakdown()),
+            );
+            const healing = mergeHealingBreakdowns(
+                appearances.map((it) => it.entity.healingDoneBreakdown()),
+            );
+            const duration = sumBy(appearances, (it) => it.seconds);
+            const activeTime = sumBy(appearances, (it) =>
+                it.entity.activeTime(tolerance).as('seconds'),
+            );
+
+            return {
+                entity,
+                displayName: entity.isPet
+                    ? `${entity.name} (${entity.owner?.name || `unknown`})`
+                    : entity.name || `Unknown`,
+                encounters: appearances.length,
+                damage,
+                healing,
+                deaths: sumBy(appearances, (it) => it.entity.deaths.length),
+                duration,
+                activeTime,
+                dps: damage.total / duration,
+                averageDps:
+                    sumBy(appearances, (it) => it.entity.damageDealt() / it.seconds) /
+                    appearances.length,
+                hps: healing.total / duration,
+                uptime: Math.min(100, (activeTime / duration) * 100),
+            };
+        })
+        .sort((a, b) => b.damage.total - a.damage.total);
+};
@@ -0,0 +1,51 @@
+// module containing functions which handle windows of time within an encounter.
+
+import { Duration } from 'luxon';
+
+/**
+ * Type representing a window of time within an encounter, in seconds from the start of the
+ * encounter.
+ */
+export type EncounterWindow = {
+    /**
+     * The start of the window.
+     */
+    from: number;
+
+    /**
+     * The end of the window.
+     */
+    to: number;
+};
+
+/**
+ * Read the window of time from an encounter page id, such as `5@30-90` (which covers the 30th to
+ * the 90th second of encounter 5).
+ *
+ * @param id the encounter page id
+ * @returns the id of the whole encounter, and the window if the id includes a valid one
+ */
+export const parseWindowId = (id: string) => {
+    const [base, range] = id.split(`@`);
+    if (range === undefined) return { base, window: undefined };
+    const [from, to] = range.split(`-`).map((it) => parseInt(it));
+    if (isNaN(from) || isNaN(to) || from < 0 || to <= from) return { base, window: undefined };
+    return { base, window: { from, to } as EncounterWindow };
+};
+
+/**
+ * Get the page id for a window of time within an encounter.
+ *
+ * @param base the id of the whole encounter
+ * @param window the window
+ */
+export const toWindowId = (base: string | number, window: EncounterWindow) =>
+    `${base}@${window.from}-${window.to}`;
+
+/**
+ * Format a window of time for display.
+ *
+ * @param window the window
+ */
+export const formatWindow = (window: EncounterWindow) =>
+    `${Duration.fromObject({ seconds: window.from }).toFormat(`m:ss`)} to ${Duration.fromObject({ seconds: window.to }).toFormat(`m:ss`)}`;
@@ -9,10 +9,10 @@ import theme, { ComponentProps } from '../theme.tsx';
  */
 type DropProps = {
     /**
-     * Function called when a file is dropped.
-     * @param file the dropped file
+     * Function called when one or more files are dropped.
+     * @param files the dropped files
      */
-    onDrop: (file: File) => void;
+    onDrop: (files: File[]) => void;
 } & ComponentProps;
 
 /**
@@ -54,10 +54,7 @@ const DropTarget = observer(({ onDrop, className }: DropProps) => {
         e.stopPropagation();
         setActive(false);
         if (e.dataTransfer?.files && e.dataTransfer.files.length > 0) {
-            for (let i = 0; i < e.dataTransfer.files.length; i++) {
-                const file = e.dataTransfer.files.item(i);
-                if (file) onDrop(file);
-            }
+            onDrop(Array.from(e.dataTransfer.files));
             e.dataTransfer.clearData();
             dragCounter = 0;
         }
@@ -0,0 +1,200 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext, useState } from 'react';
+import { LogContext } from '../state/log.ts';
+import { isValidPattern } from '../parser/matchers.ts';
+import theme from '../theme.tsx';
+import { Box } from './Common.tsx';
+import { UI_CANCEL, UIIcon } from './Icon.tsx';
+
+/**
+ * Component which lists the user-defined line matchers, allowing matchers to be added or removed.
+ *
+ * Each line matcher turns log lines matching a regular expression into a custom event, which is
+ * shown in the encounter event log. This lets us track emotes, mechanics or server messages that
+ * the parser doesn't understand.
+ *
+ * @constructor
+ */
+const LineMatchers = observer(() => {
+    const log = useContext(LogContext);
+    const [open, setOpen] = useState(false);
+    const [type, setType] = useState(``);
+    const [pattern, setPattern] = useState(``);
+
+    /**
+     * Add a line matcher using the values entered by the user.
+     */
+    const handleAdd = () => {
+        log.addMatcher({ type: type.trim(), pattern });
+        setType(``);
+        setPattern(``);
+    };
+
+    const count = log.matchers.length ? ` (${log.matchers.length})` : ``;
+    return (
+        <MatchersBox
+            header={
+                <HeaderText onClick={() => setOpen(!open)}>custom line matchers{count}</HeaderText>
+            }
+        >
+            {open && (
+                <>
+                    <MatchersText>
+                        log lines matching one of these regular expressions are shown in the event
+                        log of the encounter they happen during. changes apply to logs parsed from
+                        now on.
+                    </MatchersText>
+                    {log.matchers.map((it, index) => (
+                        <ItemContainer key={`${it.type}-${index}`}>
+                            <ItemText>
+                                <strong>{it.type}</strong>: <code>{it.pattern}</code>
+                            </ItemText>
+                            <DeleteButton
+                                onClick={() => log.removeMatcher(index)}
+                                title={`remove this matcher`}
+                            >
+                                <UIIcon path={UI_CANCEL} height={14} width={14} />
+                            </DeleteButton>
+                        </ItemContainer>
+                    ))}
+                    <MatcherForm>
+                        <MatcherInput
+                            placeholder={`event type`}
+                            value={type}
+                            onChange={(e) => setType(e.target.value)}
+                        />
+                        <PatternInput
+                            placeholder={`regular expression`}
+                            value={pattern}
+                            $invalid={pattern.length > 0 && !isValidPattern(pattern)}
+                            onChange={(e) => setPattern(e.target.value)}
+                        />
+                        <AddButton
+                            disabled={!type.trim() || !isValidPattern(pattern)}
+                            onClick={handleAdd}
+                        >
+                            add
+                        </AddButton>
+                    </MatcherForm>
+                </>
+            )}
+        </MatchersBox>
+    );
+});
+
+export default LineMatchers;
+
+/**
+ * Styled container for the line matcher list.
+ */
+const MatchersBox = styled(Box)`
+    margin-top: 8px;
+`;
+
+/**
+ * A styled div for header text, which shows or hides the line matchers when clicked.
+ */
+const HeaderText = styled.div`
+    width: calc(100% - 16px);
+    padding: 8px;
+    text-align: center;
+    cursor: pointer;
+    user-select: none;
+`;
+
+/**
+ * Styled div for the line matcher description.
+ */
+const MatchersText = styled.div`
+    padding: 8px;
+    font-size: 0.9em;
+    color: ${theme.color.mediumGrey};
+`;
+
+/**
+ * Styled container div for a line matcher item.
+ */
+const ItemContainer = styled.div`
+    display: flex;
+    background: ${theme.color.darkerBackground};
+    border-top: 1px solid ${theme.color.darkerGrey};
+`;
+
+/**
+ * Styled text div for a line matcher item.
+ */
+const ItemText = styled.div`
+    flex: 1;
+    padding: 8px;
+    overflow-wrap: anywhere;
+`;
+
+/**
+ * Styled button which removes a line matcher.
+ */
+const DeleteButton = styled.button`
+    display: flex;
+    align-items: center;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
+
+/**
+ * Styled div containing the inputs for a new line matcher.
+ */
+const MatcherForm = styled.div`
+    display: flex;
+    gap: 8px;
+    padding: 8px;
+    border-top: 1px solid ${theme.color.darkerGrey};
+`;
+
+/**
+ * Styled input for a new line matcher.
+ */
+const MatcherInput = styled.input`
+    width: 120px;
+    padding: 4px 8px;
+    font-family: ${theme.font.content};
+    background: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    border: 1px solid ${theme.color.secondary};
+`;
+
+/**
+ * Styled input for the regular expression of a new line matcher.
+ */
+const PatternInput = styled(MatcherInput)<{ $invalid: boolean }>`
+    flex: 1;
+    border-color: ${(props) => (props.$invalid ? theme.color.error : theme.color.secondary)};
+`;
+
+/**
+ * Styled button which adds a new line matcher.
+ */
+const AddButton = styled.button`
+    padding: 4px 8px;
+    border: 1px solid ${theme.color.secondary};
+    background: ${theme.color.darkerBackground};
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+
+    &:disabled {
+        cursor: default;
+        opacity: 0.5;
+    }
+`;
@@ -0,0 +1,58 @@
+import { useContext } from 'react';
+import styled from 'styled-components';
+import { LogContext, LogFile } from '../state/log.ts';
+
+/**
+ * Props accepted by the LocateFiles component.
+ */
+type Props = {
+    /**
+     * What the files are needed for, such as `to split this encounter`.
+     */
+    reason: string;
+
+    /**
+     * The log files which need to be chosen again.
+     */
+    files: LogFile[];
+
+    /**
+     * Called once the user has chosen files.
+     */
+    onLocate: () => void;
+};
+
+/**
+ * Component which asks the user to choose log files again, for when an encounter needs to be parsed
+ * again but the files it was parsed from are no longer available (such as after the page was
+ * reloaded).
+ *
+ * @param props the props accepted by the locate files component
+ * @constructor
+ */
+const LocateFiles = ({ reason, files, onLocate }: Props) => {
+    const log = useContext(LogContext);
+    return (
+        <LocateText>
+            {reason}, choose {files.map((it) => it.name).join(`, `)}{' '}
+            <input
+                type='file'
+                multiple
+                accept={`text/plain`}
+                onChange={(e) => {
+                    if (e.target.files) log.locateFiles(Array.from(e.target.files));
+                    onLocate();
+                }}
+            />
+        </LocateText>
+    );
+};
+
+export default LocateFiles;
+
+/**
+ * Styled text asking the user to choose log files.
+ */
+const LocateText = styled.span`
+    margin-right: auto;
+`;
@@ -0,0 +1,154 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext, useState } from 'react';
+import { every } from 'lodash';
+import { LogContext, LogFile } from '../state/log.ts';
+import theme from '../theme.tsx';
+import { Box } from './Common.tsx';
+import { UI_WARNING, UIIcon } from './Icon.tsx';
+
+/**
+ * Component which lists the log files that could not be parsed, allowing each one to be retried.
+ *
+ * @constructor
+ */
+const ParseErrors = observer(() => {
+    const log = useContext(LogContext);
+    if (!log.errors.length) return <></>;
+
+    // we can only continue once every other file has finished parsing.
+    const done = every(log.files, (it) => it.done);
+    return (
+        <ErrorBox header={<HeaderText>some files could not be parsed</HeaderText>}>
+            {log.errors.map((it, index) => (
+                <ParseErrorItem file={it} key={`${it.name}-${index}`} />
+            ))}
+            {done && (
+                <ErrorButton onClick={() => log.ignoreErrors()}>
+                    continue without {log.errors.length === 1 ? `this file` : `these files`}
+                </ErrorButton>
+            )}
+        </ErrorBox>
+    );
+});
+
+export default ParseErrors;
+
+/**
+ * Styled container for the parse error list.
+ */
+const ErrorBox = styled(Box)`
+    margin-top: 8px;
+`;
+
+/**
+ * A styled div for header text.
+ */
+const HeaderText = styled.div`
+    width: calc(100% - 16px);
+    padding: 8px;
+    text-align: center;
+`;
+
+/**
+ * A single item in the parse error list.
+ *
+ * If the logging player's name couldn't be determined, the user can enter it by hand.
+ *
+ * @constructor
+ */
+const ParseErrorItem = observer(({ file }: { file: LogFile }) => {
+    const log = useContext(LogContext);
+    const [player, setPlayer] = useState(``);
+    const needsName = file.error?.code === `no-player-name`;
+
+    return (
+        <ItemContainer>
+            <ItemText>
+                <UIIcon height={15} width={15} path={UI_WARNING} />
+                <span>
+                    <strong>{file.name}</strong>: {file.error?.message}
+                </span>
+            </ItemText>
+            {file.error?.code !== `wrong-file-type` && (
+                <ItemActions>
+                    {needsName && (
+                        <NameInput
+                            placeholder={`player name`}
+                            value={player}
+                            onChange={(e) => setPlayer(e.target.value.trim())}
+                        />
+                    )}
+                    <ErrorButton
+                        disabled={needsName && !player}
+                        onClick={() => log.retry(file, needsName ? player : undefined)}
+                    >
+                        retry
+                    </ErrorButton>
+                </ItemActions>
+            )}
+        </ItemContainer>
+    );
+});
+
+/**
+ * Styled container div for a parse error item.
+ */
+const ItemContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    padding: 8px;
+    background-color: #655d3e;
+    border-top: 1px solid ${theme.color.secondary};
+`;
+
+/**
+ * Styled text div for a parse error item.
+ */
+const ItemText = styled.div`
+    display: flex;
+    gap: 8px;
+`;
+
+/**
+ * Styled container div for the actions of a parse error item.
+ */
+const ItemActions = styled.div`
+    display: flex;
+    justify-content: flex-end;
+    gap: 8px;
+`;
+
+/**
+ * Styled input for the logging player's name.
+ */
+const NameInput = styled.input`
+    padding: 4px 8px;
+    font-family: ${theme.font.content};
+    background: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    border: 1px solid ${theme.color.secondary};
+`;
+
+/**
+ * Styled button for a parse error action.
+ */
+const ErrorButton = styled.button`
+    padding: 4px 8px;
+    border: 1px solid ${theme.color.secondary};
+    background: ${theme.color.darkerBackground};
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+
+    &:disabled {
+        cursor: default;
+        opacity: 0.5;
+    }
+`;
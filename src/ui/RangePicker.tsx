@@ -0,0 +1,204 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext, useState } from 'react';
+import { DateTime, Duration } from 'luxon';
+import { LogContext } from '../state/log.ts';
+import theme from '../theme.tsx';
+import { Box } from './Common.tsx';
+
+/**
+ * The format used by datetime-local inputs.
+ */
+const INPUT_FORMAT = `yyyy-MM-dd'T'HH:mm`;
+
+/**
+ * Quick range options, as a duration before the end of the log.
+ */
+const PRESETS = [
+    { title: `last 6 hours`, duration: Duration.fromObject({ hours: 6 }) },
+    { title: `last 24 hours`, duration: Duration.fromObject({ hours: 24 }) },
+    { title: `last week`, duration: Duration.fromObject({ weeks: 1 }) },
+];
+
+/**
+ * Convert a timestamp to a datetime-local input value.
+ *
+ * @param timestamp the timestamp
+ */
+const toInput = (timestamp: number | undefined) =>
+    timestamp === undefined ? `` : DateTime.fromMillis(timestamp).toFormat(INPUT_FORMAT);
+
+/**
+ * Convert a datetime-local input value to a timestamp.
+ *
+ * @param value the input value
+ */
+const fromInput = (value: string) => {
+    const result = DateTime.fromFormat(value, INPUT_FORMAT);
+    return result.isValid ? result.toMillis() : undefined;
+};
+
+/**
+ * Component which lets the user choose the range of time to parse from the selected log files.
+ *
+ * @constructor
+ */
+const RangePicker = observer(() => {
+    const log = useContext(LogContext);
+    const { from: start, to: end } = log.pendingRange;
+    const [from, setFrom] = useState(toInput(start));
+    const [to, setTo] = useState(toInput(end));
+
+    /**
+     * Parse the selected range. Minutes are the smallest unit we can pick, so the end of the range
+     * includes the whole of its last minute.
+     */
+    const handleParse = () => {
+        const toTimestamp = fromInput(to);
+        log.parsePending({
+            from: fromInput(from),
+            to: toTimestamp === undefined ? undefined : toTimestamp + 59999,
+        });
+    };
+
+    const files = log.pending.length === 1 ? `1 file` : `${log.pending.length} files`;
+    return (
+        <RangeBox header={<HeaderText>choose what to parse ({files})</HeaderText>}>
+            <RangeContent>
+                <div>
+                    the selected logs cover <strong>{toDisplay(start)}</strong> to{' '}
+                    <strong>{toDisplay(end)}</strong>
+                </div>
+                <RangeInputs>
+                    <label>
+                        from{' '}
+                        <RangeInput
+                            type='datetime-local'
+                            value={from}
+                            onChange={(e) => setFrom(e.target.value)}
+                        />
+                    </label>
+                    <label>
+                        to{' '}
+                        <RangeInput
+                            type='datetime-local'
+                            value={to}
+                            onChange={(e) => setTo(e.target.value)}
+                        />
+                    </label>
+                </RangeInputs>
+                <RangeButtons>
+                    <RangeButton
+                        onClick={() => {
+                            setFrom(toInput(start));
+                            setTo(toInput(end));
+                        }}
+                    >
+                        everything
+                    </RangeButton>
+                    {end !== undefined &&
+                        PRESETS.map((it) => (
+                            <RangeButton
+                                key={it.title}
+                                onClick={() => {
+                                    setFrom(toInput(end - it.duration.toMillis()));
+                                    setTo(toInput(end));
+                                }}
+                            >
+                                {it.title}
+                            </RangeButton>
+                        ))}
+                </RangeButtons>
+                <RangeButtons>
+                    <RangeButton onClick={() => log.clear()}>cancel</RangeButton>
+                    <RangeButton onClick={handleParse}>parse</RangeButton>
+                </RangeButtons>
+            </RangeContent>
+        </RangeBox>
+    );
+});
+
+export default RangePicker;
+
+/**
+ * Format a timestamp for display.
+ *
+ * @param timestamp the timestamp
+ */
+const toDisplay = (timestamp: number | undefined) =>
+    timestamp === undefined
+        ? `unknown`
+        : DateTime.fromMillis(timestamp).toLocaleString(DateTime.DATETIME_SHORT);
+
+/**
+ * Styled container for the range picker.
+ */
+const RangeBox = styled(Box)`
+    margin-top: 8px;
+`;
+
+/**
+ * A styled div for header text.
+ */
+const HeaderText = styled.div`
+    width: calc(100% - 16px);
+    padding: 8px;
+    text-align: center;
+`;
+
+/**
+ * Styled div for the range picker content.
+ */
+const RangeContent = styled.div`
+    padding: 16px;
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+`;
+
+/**
+ * Styled div containing the range inputs.
+ */
+const RangeInputs = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 8px;
+`;
+
+/**
+ * Styled datetime input.
+ */
+const RangeInput = styled.input`
+    padding: 4px;
+    font-family: ${theme.font.content};
+    background: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    border: 1px solid ${theme.color.secondary};
+    color-scheme: dark;
+`;
+
+/**
+ * Styled div containing range picker buttons.
+ */
+const RangeButtons = styled.div`
+    display: flex;
+    justify-content: flex-end;
+    gap: 8px;
+`;
+
+/**
+ * Styled button for the range picker.
+ */
+const RangeButton = styled.button`
+    padding: 4px 8px;
+    border: 1px solid ${theme.color.secondary};
+    background: ${theme.color.darkerBackground};
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+`;
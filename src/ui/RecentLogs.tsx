@@ -0,0 +1,145 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext, useEffect } from 'react';
+import { DateTime } from 'luxon';
+import { uniq } from 'lodash';
+import { LogContext } from '../state/log.ts';
+import { SessionSummary } from '../state/storage.ts';
+import theme from '../theme.tsx';
+import { Box } from './Common.tsx';
+import { UI_CANCEL, UIIcon } from './Icon.tsx';
+
+/**
+ * Component which lists the log sessions saved in browser storage, allowing them to be reopened or
+ * deleted.
+ *
+ * @constructor
+ */
+const RecentLogs = observer(() => {
+    const log = useContext(LogContext);
+
+    useEffect(() => {
+        log.loadSessions();
+    }, []);
+
+    if (!log.sessions.length) return <></>;
+
+    return (
+        <RecentLogsBox header={<HeaderText>recent logs</HeaderText>}>
+            {log.sessions.map((it) => (
+                <RecentLogItem
+                    key={it.id}
+                    session={it}
+                    onOpen={() => log.open(it.id)}
+                    onDelete={() => log.remove(it.id)}
+                />
+            ))}
+        </RecentLogsBox>
+    );
+});
+
+export default RecentLogs;
+
+/**
+ * Styled container for the recent logs list.
+ */
+const RecentLogsBox = styled(Box)`
+    margin-top: 8px;
+`;
+
+/**
+ * A styled div for header text.
+ */
+const HeaderText = styled.div`
+    width: calc(100% - 16px);
+    padding: 8px;
+    text-align: center;
+`;
+
+/**
+ * Props accepted by the RecentLogItem component.
+ */
+type ItemProps = {
+    /**
+     * The saved session.
+     */
+    session: SessionSummary;
+
+    /**
+     * Function called when the session should be opened.
+     */
+    onOpen: () => void;
+
+    /**
+     * Function called when the session should be deleted.
+     */
+    onDelete: () => void;
+};
+
+/**
+ * A single item in the recent logs list.
+ *
+ * @constructor
+ */
+const RecentLogItem = ({ session, onOpen, onDelete }: ItemProps) => {
+    const names = uniq(session.files.map((it) => it.loggedBy || it.name));
+    const starts = session.files.map((it) => it.start).filter((it) => it !== undefined);
+    const start = starts.length
+        ? DateTime.fromMillis(Math.min(...starts)).toLocaleString(DateTime.DATETIME_SHORT)
+        : `unknown`;
+
+    return (
+        <ItemContainer>
+            <ItemText onClick={onOpen}>
+                <strong>{names.join(', ')}</strong> ({start}, {session.encounters} encounters)
+            </ItemText>
+            <DeleteButton onClick={onDelete} title={`delete this log`}>
+                <UIIcon path={UI_CANCEL} height={14} width={14} />
+            </DeleteButton>
+        </ItemContainer>
+    );
+};
+
+/**
+ * Styled container div for a recent log item.
+ */
+const ItemContainer = styled.div`
+    display: flex;
+    background: ${theme.color.darkerBackground};
+    border-top: 1px solid ${theme.color.darkerGrey};
+`;
+
+/**
+ * Styled text div for a recent log item, which opens the log when clicked.
+ */
+const ItemText = styled.div`
+    flex: 1;
+    padding: 8px;
+    cursor: pointer;
+    user-select: none;
+
+    &:hover {
+        background-color: rgba(255, 255, 255, 0.1);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+`;
+
+/**
+ * Styled button which deletes a recent log.
+ */
+const DeleteButton = styled.button`
+    display: flex;
+    align-items: center;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
@@ -0,0 +1,70 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext } from 'react';
+import { LogContext } from '../state/log.ts';
+import theme from '../theme.tsx';
+import { UI_CANCEL, UI_WARNING, UIIcon } from './Icon.tsx';
+
+/**
+ * Component which shows the last error which occurred while saving or loading log sessions in
+ * browser storage, allowing the user to dismiss it.
+ *
+ * @constructor
+ */
+const StorageError = observer(() => {
+    const log = useContext(LogContext);
+    if (!log.storageError) return <></>;
+
+    return (
+        <ErrorContainer>
+            <UIIcon height={15} width={15} path={UI_WARNING} />
+            <ErrorText>{log.storageError}</ErrorText>
+            <DismissButton onClick={() => log.dismissStorageError()} title={`dismiss`}>
+                <UIIcon path={UI_CANCEL} height={14} width={14} />
+            </DismissButton>
+        </ErrorContainer>
+    );
+});
+
+export default StorageError;
+
+/**
+ * Styled container div for the storage error.
+ */
+const ErrorContainer = styled.div`
+    margin-top: 8px;
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding-left: 8px;
+    background-color: #655d3e;
+    border: 1px solid ${theme.color.secondary};
+    color: ${theme.color.white};
+    font-family: ${theme.font.content};
+`;
+
+/**
+ * Styled text for the storage error.
+ */
+const ErrorText = styled.span`
+    flex: 1;
+    padding: 8px 0;
+`;
+
+/**
+ * Styled button which dismisses the storage error.
+ */
+const DismissButton = styled.button`
+    display: flex;
+    align-items: center;
+    align-self: stretch;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
@@ -1,4 +1,3 @@
-import { toDPSData } from '@aysi-e/thj-parser-lib';
 import { observer } from 'mobx-react';
 import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import styled from 'styled-components';
@@ -72,7 +71,7 @@ const EncounterSummaryContainer = styled.div`
  */
 const CharacterDamageTimeline = ({ entity }: { entity: EncounterEntityState }) => {
     const encounter = useEncounter();
-    const data = toDPSData(encounter.timeline, undefined, undefined, undefined, [entity.id]);
+    const data = encounter.dpsData(undefined, [entity.id]);
     return (
         <ResponsiveContainer width='100%' height={270}>
             <LineChart
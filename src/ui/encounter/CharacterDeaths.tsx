@@ -0,0 +1,47 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { EncounterEntityState } from '../../state/encounter.ts';
+import { EncounterGraph } from './Common.tsx';
+import { DeathList, DeathTimelineGraph } from './EncounterDeaths.tsx';
+
+/**
+ * Props accepted by the CharacterDeaths component.
+ */
+type Props = {
+    /**
+     * The character.
+     */
+    entity: EncounterEntityState;
+};
+
+/**
+ * Component which displays each death of a character during an encounter.
+ */
+const CharacterDeaths = observer(({ entity }: Props) => {
+    return (
+        <>
+            <EncounterGraph title={`deaths of ${entity.name}`}>
+                <DeathTimelineGraph deaths={entity.deaths} />
+            </EncounterGraph>
+            <EncounterSummaryContainer>
+                <DeathList
+                    title={`deaths of ${entity.name}`}
+                    deaths={entity.deaths}
+                    empty={`${entity.name} did not die during this encounter`}
+                />
+            </EncounterSummaryContainer>
+        </>
+    );
+});
+
+export default CharacterDeaths;
+
+/**
+ * A container div for the character death charts.
+ */
+const EncounterSummaryContainer = styled.div`
+    margin-top: 8px;
+    display: flex;
+    justify-content: space-around;
+    gap: 8px;
+`;
@@ -1,4 +1,4 @@
-import { HandlerEvent, toDPSData, toHPSData } from '@aysi-e/thj-parser-lib';
+import { HandlerEvent } from '@aysi-e/thj-parser-lib';
 import { observer } from 'mobx-react';
 import { zipWith } from 'lodash';
 import styled from 'styled-components';
@@ -73,8 +73,8 @@ const StyledEventLog = styled(EventLog)`
 const CharacterDamageTimeline = (props: Props) => {
     const encounter = useEncounter();
 
-    const dpsData = toDPSData(encounter.timeline, undefined, undefined, [props.entity.id]);
-    const hpsData = toHPSData(encounter.timeline, undefined, undefined, [props.entity.id]);
+    const dpsData = encounter.dpsData([props.entity.id]);
+    const hpsData = encounter.hpsData([props.entity.id]);
 
     const data = zipWith(dpsData, hpsData, (a, b) => {
         return {
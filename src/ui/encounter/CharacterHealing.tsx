@@ -6,7 +6,6 @@ import { DetailColumn } from './charts/DetailChart.tsx';
 import { shortenNumber } from '../../util/numbers.ts';
 import { round } from 'lodash';
 import styled from 'styled-components';
-import { toHPSData } from '@aysi-e/thj-parser-lib';
 import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import { Duration } from 'luxon';
 import { HealingByTargetChart, OverallHealingDoneChart } from './charts/ByCharacterChart.tsx';
@@ -87,7 +86,7 @@ const EncounterSummaryContainer = styled.div`
  */
 const CharacterDamageTimeline = ({ entity }: { entity: EncounterEntityState }) => {
     const encounter = useEncounter();
-    const data = toHPSData(encounter.timeline, undefined, undefined, [entity.id]);
+    const data = encounter.hpsData([entity.id]);
     return (
         <ResponsiveContainer width='100%' height={270}>
             <LineChart
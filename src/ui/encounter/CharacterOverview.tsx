@@ -0,0 +1,252 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { round } from 'lodash';
+import { useContext } from 'react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Duration } from 'luxon';
+import theme from '../../theme.tsx';
+import { shortenNumber } from '../../util/numbers.ts';
+import { EncounterEntityState, useEncounter } from '../../state/encounter.ts';
+import { MeterSettingsContext } from '../../state/settings.ts';
+import { EncounterGraph } from './Common.tsx';
+import { Box } from '../Common.tsx';
+import { DamageBySourceChart, HealingBySourceChart } from './charts/BreakdownChart.tsx';
+import { DamageByTargetChart, HealingByTargetChart } from './charts/ByCharacterChart.tsx';
+
+/**
+ * The number of abilities and targets to display in the overview charts.
+ */
+const TOP_LIMIT = 5;
+
+/**
+ * Props accepted by the CharacterOverview component.
+ */
+type Props = {
+    /**
+     * The character.
+     */
+    entity: EncounterEntityState;
+};
+
+/**
+ * Component which displays overview and summary data for a character.
+ */
+const CharacterOverview = observer(({ entity }: Props) => {
+    return (
+        <>
+            <EncounterGraph title={`overview for ${entity.name}`}>
+                <CharacterOverviewTimeline entity={entity} />
+            </EncounterGraph>
+            <EncounterSummaryContainer>
+                <CharacterSummary entity={entity} />
+            </EncounterSummaryContainer>
+            <EncounterSummaryContainer>
+                <DamageBySourceChart
+                    title={`top damage abilities for ${entity.name}`}
+                    entities={[entity]}
+                    limit={TOP_LIMIT}
+                />
+                <DamageByTargetChart
+                    title={`top damage targets for ${entity.name}`}
+                    entity={entity}
+                    limit={TOP_LIMIT}
+                    customize={(item) => ({
+                        background: item.isEnemy ? `#9c4646` : `#4A58A4`,
+                        link: `../character/${item.index}?mode=damage-taken`,
+                    })}
+                />
+            </EncounterSummaryContainer>
+            <EncounterSummaryContainer>
+                <HealingBySourceChart
+                    title={`top healing abilities for ${entity.name}`}
+                    entities={[entity]}
+                    limit={TOP_LIMIT}
+                />
+                <HealingByTargetChart
+                    title={`top healing targets for ${entity.name}`}
+                    entity={entity}
+                    limit={TOP_LIMIT}
+                    customize={(item) => ({
+                        background: item.isEnemy ? `#596215` : `#33622d`,
+                        link: `../character/${item.index}?mode=healing`,
+                    })}
+                />
+            </EncounterSummaryContainer>
+        </>
+    );
+});
+
+export default CharacterOverview;
+
+/**
+ * A container div for the character overview charts.
+ */
+const EncounterSummaryContainer = styled.div`
+    margin-top: 8px;
+    display: flex;
+    justify-content: space-around;
+    gap: 8px;
+`;
+
+/**
+ * Component which displays damage dealt, healing done and damage taken by a character over the
+ * course of the encounter.
+ *
+ * @param entity the entity
+ * @constructor
+ */
+const CharacterOverviewTimeline = ({ entity }: { entity: EncounterEntityState }) => {
+    const encounter = useEncounter();
+    const dps = encounter.dpsData([entity.id]);
+    const hps = encounter.hpsData([entity.id]);
+    const taken = encounter.dpsData(undefined, [entity.id]);
+
+    const length = Math.max(dps.length, hps.length, taken.length);
+    const data = Array.from({ length }, (_, time) => ({
+        time,
+        dps: dps[time]?.dps ?? 0,
+        hps: hps[time]?.hps ?? 0,
+        'damage taken': taken[time]?.dps ?? 0,
+    }));
+
+    return (
+        <ResponsiveContainer width='100%' height={270}>
+            <LineChart
+                data={data}
+                margin={{
+                    top: 16,
+                    right: 12,
+                    left: -4,
+                    bottom: 0,
+                }}
+            >
+                <XAxis
+                    dataKey='time'
+                    interval={data.length > 450 ? 59 : data.length > 60 ? 29 : 5}
+                    tickFormatter={(i) => Duration.fromMillis(i * 1000).toFormat(`m:ss`)}
+                />
+                <YAxis tickFormatter={(i) => shortenNumber(i)} />
+                <Tooltip
+                    labelFormatter={(label) => Duration.fromMillis(label * 1000).toFormat(`m:ss`)}
+                    contentStyle={{ background: 'black' }}
+                />
+                <Line type='monotone' dataKey='dps' stroke='#70bfff' dot={false} />
+                <Line type='monotone' dataKey='hps' stroke='#82ca9d' dot={false} />
+                <Line
+                    type='monotone'
+                    dataKey='damage taken'
+                    stroke={theme.color.error}
+                    dot={false}
+                />
+            </LineChart>
+        </ResponsiveContainer>
+    );
+};
+
+/**
+ * Component which displays summary statistics for a character.
+ *
+ * @param entity the entity
+ * @constructor
+ */
+const CharacterSummary = observer(({ entity }: { entity: EncounterEntityState }) => {
+    const encounter = useEncounter();
+    const settings = useContext(MeterSettingsContext);
+    const seconds = encounter.duration.as(`seconds`);
+    const activeTime = entity.activeTime(settings.gapTolerance);
+    const active = activeTime.as(`seconds`);
+
+    const rows = [
+        {
+            title: `damage done`,
+            value: shortenNumber(entity.damageDealt()),
+            detail: `${round(entity.damageDealt() / seconds).toLocaleString()} dps`,
+        },
+        {
+            title: `damage taken`,
+            value: shortenNumber(entity.damageTaken()),
+            detail: `${round(entity.damageTaken() / seconds).toLocaleString()} dps`,
+        },
+        {
+            title: `healing done`,
+            value: shortenNumber(entity.healingDone()),
+            detail: `${round(entity.healingDone() / seconds).toLocaleString()} hps`,
+        },
+        {
+            title: `healing received`,
+            value: shortenNumber(entity.healingReceived()),
+            detail: `${round(entity.healingReceived() / seconds).toLocaleString()} hps`,
+        },
+        {
+            title: `active time`,
+            value: activeTime.toFormat(`m:ss`),
+            detail: `${seconds ? round((active / seconds) * 100) : 0}% of encounter`,
+        },
+        {
+            title: `deaths`,
+            value: entity.deaths.length.toLocaleString(),
+            detail: ``,
+        },
+    ];
+
+    return (
+        <SummaryBox header={`summary for ${entity.name}`}>
+            <SummaryItems>
+                {rows.map((row) => (
+                    <SummaryItem key={row.title}>
+                        <SummaryTitle>{row.title}</SummaryTitle>
+                        <SummaryValue>{row.value}</SummaryValue>
+                        <SummaryTitle>{row.detail}</SummaryTitle>
+                    </SummaryItem>
+                ))}
+            </SummaryItems>
+        </SummaryBox>
+    );
+});
+
+/**
+ * Container box for the character summary.
+ */
+const SummaryBox = styled(Box)`
+    width: 100%;
+`;
+
+/**
+ * Styled div containing each character summary item.
+ */
+const SummaryItems = styled.div`
+    display: flex;
+    padding: 8px;
+    gap: 8px;
+`;
+
+/**
+ * Styled div for a single character summary item.
+ */
+const SummaryItem = styled.div`
+    flex: 1;
+    padding: 8px;
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    gap: 4px;
+    border: ${theme.color.secondary} 1px solid;
+    background-color: ${theme.color.darkerBackground};
+`;
+
+/**
+ * Styled div for the title of a character summary item.
+ */
+const SummaryTitle = styled.div`
+    font-size: 0.9em;
+    color: ${theme.color.mediumGrey};
+    min-height: 1em;
+`;
+
+/**
+ * Styled div for the value of a character summary item.
+ */
+const SummaryValue = styled.div`
+    font-size: 1.4em;
+    font-weight: bold;
+`;
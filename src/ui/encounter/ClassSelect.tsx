@@ -0,0 +1,76 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext } from 'react';
+import { keys } from 'lodash';
+import { CharacterClass, CLASSES, useClassOf } from '../../state/classes.ts';
+import { EncounterEntityState } from '../../state/encounter.ts';
+import { LogContext } from '../../state/log.ts';
+import theme from '../../theme.tsx';
+
+/**
+ * Component which shows the class of a character, and lets the user choose a different class if
+ * the detected class is wrong.
+ *
+ * @param entity the character
+ * @constructor
+ */
+const ClassSelect = observer(({ entity }: { entity: EncounterEntityState }) => {
+    const log = useContext(LogContext);
+    const classOf = useClassOf();
+    const current = classOf(entity);
+    const detected = entity.detectedClass;
+    return (
+        <ClassContainer>
+            {current && <ClassIcon src={CLASSES[current].icon} alt={CLASSES[current].name} />}
+            <ClassInput
+                value={log.classes[entity.name] ?? ``}
+                onChange={(e) =>
+                    log.setCharacterClass(
+                        entity.name,
+                        (e.target.value || undefined) as CharacterClass | undefined,
+                    )
+                }
+            >
+                <option value={``}>
+                    {detected ? `${CLASSES[detected].name} (detected)` : `unknown class`}
+                </option>
+                {keys(CLASSES).map((it) => (
+                    <option key={it} value={it}>
+                        {CLASSES[it as CharacterClass].name}
+                    </option>
+                ))}
+            </ClassInput>
+        </ClassContainer>
+    );
+});
+
+export default ClassSelect;
+
+/**
+ * Styled container div for the class select.
+ */
+const ClassContainer = styled.div`
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 0 8px;
+`;
+
+/**
+ * Styled image for a class icon.
+ */
+const ClassIcon = styled.img`
+    width: 20px;
+    height: 20px;
+`;
+
+/**
+ * Styled select input for the class.
+ */
+const ClassInput = styled.select`
+    padding: 2px 4px;
+    font-family: ${theme.font.content};
+    background: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    border: 1px solid ${theme.color.secondary};
+`;
@@ -0,0 +1,163 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Duration } from 'luxon';
+import { LogContext, LogEncounter } from '../../state/log.ts';
+import theme from '../../theme.tsx';
+import LocateFiles from '../LocateFiles.tsx';
+
+/**
+ * Props accepted by the EncounterBoundaries component.
+ */
+type Props = {
+    /**
+     * The encounter.
+     */
+    encounter: LogEncounter;
+
+    /**
+     * The point to split the encounter at, in seconds from the start of the encounter, if one has
+     * been chosen on the timeline.
+     */
+    splitAt: number | undefined;
+};
+
+/**
+ * Component which lets the user fix the boundaries of an encounter, by splitting it at a point
+ * chosen on the timeline or joining it with an adjacent encounter.
+ *
+ * Splitting an encounter parses its lines again, so the log files it was parsed from need to be
+ * available. If the page was reloaded since they were parsed, the user is asked to choose them
+ * again.
+ *
+ * @param props the props accepted by the encounter boundaries component
+ * @constructor
+ */
+const EncounterBoundaries = observer(({ encounter, splitAt }: Props) => {
+    const log = useContext(LogContext);
+    const navigate = useNavigate();
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string>();
+    const [missing, setMissing] = useState(log.missingSources(encounter));
+
+    // segments and encounters still being written can't be changed.
+    if (encounter.segment !== undefined || encounter.live || log.watching) return <></>;
+
+    const id = encounter.id;
+    const index = log.encounters.findIndex((it) => it.id === id);
+    const previous = log.encounters[index - 1];
+    const next = log.encounters[index + 1];
+    const canSplit =
+        splitAt !== undefined && splitAt > 0 && splitAt * 1000 < encounter.duration && !busy;
+
+    /**
+     * Split the encounter at the chosen point.
+     */
+    const handleSplit = () => {
+        if (splitAt === undefined) return;
+        setBusy(true);
+        setError(undefined);
+        log.splitEncounter(id, encounter.start + splitAt * 1000)
+            .then(() => navigate(`/encounter/${id}`))
+            .catch((e) => setError(`couldn't split the encounter: ${e.message}`))
+            .finally(() => setBusy(false));
+    };
+
+    /**
+     * Join the encounter with the encounter before or after it.
+     *
+     * @param first the id of the first of the two encounters
+     */
+    const handleJoin = (first: number) => {
+        log.joinEncounter(first);
+        navigate(`/encounter/${first}`);
+    };
+
+    const splitText =
+        splitAt === undefined
+            ? `click the timeline to choose where to split`
+            : `split at ${Duration.fromMillis(splitAt * 1000).toFormat(`m:ss`)}`;
+    return (
+        <BoundariesContainer>
+            <BoundariesText>encounter boundaries</BoundariesText>
+            {missing.length ? (
+                <LocateFiles
+                    reason={`to split this encounter`}
+                    files={missing}
+                    onLocate={() => setMissing(log.missingSources(encounter))}
+                />
+            ) : (
+                <BoundaryButton disabled={!canSplit} onClick={handleSplit}>
+                    {busy ? `splitting...` : splitText}
+                </BoundaryButton>
+            )}
+            <BoundaryButton
+                disabled={!previous || busy}
+                onClick={() => previous && handleJoin(previous.id)}
+            >
+                join with previous
+            </BoundaryButton>
+            <BoundaryButton disabled={!next || busy} onClick={() => handleJoin(id)}>
+                join with next
+            </BoundaryButton>
+            {error && <ErrorText>{error}</ErrorText>}
+        </BoundariesContainer>
+    );
+});
+
+export default EncounterBoundaries;
+
+/**
+ * Styled container div for the encounter boundary controls.
+ */
+const BoundariesContainer = styled.div`
+    margin-top: 8px;
+    padding: 8px;
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 8px;
+    border: ${theme.color.secondary} 1px solid;
+    background-color: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    font-family: ${theme.font.header};
+`;
+
+/**
+ * Styled text for the encounter boundary controls.
+ */
+const BoundariesText = styled.span`
+    margin-right: auto;
+`;
+
+/**
+ * Styled text for an error splitting the encounter.
+ */
+const ErrorText = styled.span`
+    width: 100%;
+    color: ${theme.color.error};
+`;
+
+/**
+ * Styled button for the encounter boundary controls.
+ */
+const BoundaryButton = styled.button`
+    padding: 4px 8px;
+    border: 1px solid ${theme.color.secondary};
+    background: ${theme.color.darkerGrey};
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+
+    &:disabled {
+        cursor: default;
+        opacity: 0.5;
+        filter: none;
+    }
+`;
@@ -0,0 +1,253 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { max, round } from 'lodash';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Duration } from 'luxon';
+import theme from '../../theme.tsx';
+import { shortenNumber } from '../../util/numbers.ts';
+import EncounterState, { EncounterEntityState } from '../../state/encounter.ts';
+import DamageMeter, { MeterColumn, MeterItem } from './charts/DamageMeter.tsx';
+
+/**
+ * The colors used to tell compared encounters apart, in selection order.
+ */
+export const COMPARE_COLORS = [`#70bfff`, `#ffa3a3`, `#b8ffaf`, `#c99d66`, `#d7a6ff`, `#fff98e`];
+
+/**
+ * Get the color used for a compared encounter.
+ *
+ * @param index the index of the encounter in the comparison
+ */
+export const compareColor = (index: number) => COMPARE_COLORS[index % COMPARE_COLORS.length];
+
+/**
+ * Get the label used for a compared encounter in the timeline graph.
+ *
+ * @param state the encounter state
+ * @param index the index of the encounter in the comparison
+ */
+const toLabel = (state: EncounterState, index: number) => `#${index + 1} ${state.title}`;
+
+/**
+ * Component which overlays the ally DPS of each compared encounter, with time measured from the
+ * start of each pull.
+ *
+ * @param encounters the compared encounters
+ * @constructor
+ */
+export const CompareTimelineGraph = observer(({ encounters }: { encounters: EncounterState[] }) => {
+    const series = encounters.map((it) => it.dpsData(it.friends.map((friend) => friend.id)));
+    const length = max(series.map((it) => it.length)) ?? 0;
+    const data = Array.from({ length }, (_, time) => {
+        const point: Record<string, number> = { time };
+        series.forEach((it, index) => {
+            if (time < it.length) point[toLabel(encounters[index], index)] = it[time].dps;
+        });
+        return point;
+    });
+
+    return (
+        <ResponsiveContainer width='100%' height={270}>
+            <LineChart
+                data={data}
+                margin={{
+                    top: 16,
+                    right: 12,
+                    left: -4,
+                    bottom: 0,
+                }}
+            >
+                <XAxis
+                    dataKey='time'
+                    interval={length > 450 ? 59 : length > 60 ? 29 : 5}
+                    tickFormatter={(i) => Duration.fromMillis(i * 1000).toFormat(`m:ss`)}
+                />
+                <YAxis tickFormatter={(i) => shortenNumber(i)} />
+                <Tooltip
+                    labelFormatter={(label) => Duration.fromMillis(label * 1000).toFormat(`m:ss`)}
+                    contentStyle={{ background: 'black' }}
+                />
+                {encounters.map((it, index) => (
+                    <Line
+                        key={toLabel(it, index)}
+                        type='monotone'
+                        dataKey={toLabel(it, index)}
+                        stroke={compareColor(index)}
+                        dot={false}
+                    />
+                ))}
+            </LineChart>
+        </ResponsiveContainer>
+    );
+});
+
+/**
+ * Props accepted by the CompareMeters component.
+ */
+type CompareMetersProps = {
+    /**
+     * The encounter to display meters for.
+     */
+    encounter: EncounterState;
+
+    /**
+     * The encounter that differences are measured against.
+     */
+    baseline: EncounterState;
+
+    /**
+     * The index of the encounter in the comparison.
+     */
+    index: number;
+};
+
+/**
+ * Component which displays damage and healing meters for one of the compared encounters, along
+ * with the difference between each character's numbers and their numbers in the baseline encounter.
+ *
+ * @param props the props accepted by the compare meters component
+ * @constructor
+ */
+export const CompareMeters = observer(({ encounter, baseline, index }: CompareMetersProps) => {
+    const seconds = encounter.duration.as('seconds');
+    const baselineSeconds = baseline.duration.as('seconds');
+
+    /**
+     * Find the character in the baseline encounter matching a character in this encounter.
+     *
+     * @param entity the character
+     */
+    const findBaseline = (entity: EncounterEntityState) =>
+        encounter === baseline
+            ? undefined
+            : baseline.friends.find((it) => it.name === entity.name && it.isPet === entity.isPet);
+
+    /**
+     * Create a meter column showing the difference between a character's value in this encounter
+     * and their value in the baseline encounter.
+     *
+     * @param title the column title
+     * @param value function returning the value for a character
+     * @param perSecond is the value a per-second rate?
+     */
+    const toDeltaColumn = (
+        title: string,
+        value: (entity: EncounterEntityState) => number,
+        perSecond: boolean,
+    ): MeterColumn => ({
+        title,
+        value: (item) => {
+            const entity = item.entity as EncounterEntityState;
+            const match = findBaseline(entity);
+            if (!match) return undefined;
+            return perSecond
+                ? value(entity) / seconds - value(match) / baselineSeconds
+                : value(entity) - value(match);
+        },
+        format: (value) =>
+            `${value > 0 ? `+` : ``}${perSecond ? round(value).toLocaleString() : shortenNumber(round(value))}`,
+        total: true,
+        width: 60,
+    });
+
+    /**
+     * Create meter items for each character in this encounter.
+     *
+     * @param value function returning the value for a character
+     * @param mode the character page to link to
+     */
+    const toItems = (value: (entity: EncounterEntityState) => number, mode: string) => {
+        const total = encounter.friends.reduce((acc, val) => acc + value(val), 0);
+        return encounter.friends
+            .map((entity): MeterItem => ({
+                entity,
+                value: value(entity),
+                displayName: entity.isPet
+                    ? `${entity.name} (${entity.owner?.name || `unknown`})`
+                    : entity.name || `Unknown`,
+                index: entity.index,
+                perSecond: value(entity) / seconds,
+                percent: (value(entity) / total) * 100,
+                link: `/encounter/${encounter.id}/character/${entity.index}?mode=${mode}`,
+                background: mode === `healing` ? theme.color.friendHeal : theme.color.friend,
+            }))
+            .filter((it) => it.value > 0);
+    };
+
+    const damage = (entity: EncounterEntityState) => entity.damageDealt();
+    const healing = (entity: EncounterEntityState) => entity.healingDone();
+    const title = (text: string) => (
+        <MeterTitle>
+            <Swatch $color={compareColor(index)} />#{index + 1} {text}
+        </MeterTitle>
+    );
+
+    return (
+        <MeterColumnContainer>
+            <DamageMeter
+                title={title(`damage (${encounter.duration.rescale().toHuman()})`)}
+                items={toItems(damage, `damage-done`)}
+                columns={[
+                    { title: `total`, value: (it) => it.value, format: shortenNumber, total: true },
+                    toDeltaColumn(`Δ`, damage, false),
+                    {
+                        title: `dps`,
+                        value: (it) => it.perSecond,
+                        format: (value) => round(value).toLocaleString(),
+                        total: true,
+                    },
+                    toDeltaColumn(`Δ dps`, damage, true),
+                ]}
+                header
+                footer
+            />
+            <DamageMeter
+                title={title(`healing`)}
+                items={toItems(healing, `healing`)}
+                columns={[
+                    { title: `total`, value: (it) => it.value, format: shortenNumber, total: true },
+                    toDeltaColumn(`Δ`, healing, false),
+                    {
+                        title: `hps`,
+                        value: (it) => it.perSecond,
+                        format: (value) => round(value).toLocaleString(),
+                        total: true,
+                    },
+                    toDeltaColumn(`Δ hps`, healing, true),
+                ]}
+                header
+                footer
+            />
+        </MeterColumnContainer>
+    );
+});
+
+/**
+ * Styled container div for the meters of one compared encounter.
+ */
+const MeterColumnContainer = styled.div`
+    flex: 1;
+    min-width: 320px;
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+`;
+
+/**
+ * Styled div for a compared encounter meter title.
+ */
+const MeterTitle = styled.div`
+    display: flex;
+    align-items: center;
+    gap: 6px;
+`;
+
+/**
+ * A small swatch showing the color of a compared encounter in the timeline graph.
+ */
+const Swatch = styled.span<{ $color: string }>`
+    display: inline-block;
+    width: 10px;
+    height: 10px;
+    background-color: ${(props) => props.$color};
+`;
@@ -1,36 +1,74 @@
-import { toDPSData } from '@aysi-e/thj-parser-lib';
 import { observer } from 'mobx-react';
 import { zipWith } from 'lodash';
 import styled from 'styled-components';
 import theme from '../../theme.tsx';
-import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+    Line,
+    LineChart,
+    ReferenceArea,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts';
 import { Duration } from 'luxon';
 import { shortenNumber } from '../../util/numbers.ts';
-import { useEncounter } from '../../state/encounter.ts';
+import { EncounterEntityState, useEncounter } from '../../state/encounter.ts';
 import { OverallDamageDealtChart } from './charts/ByCharacterChart.tsx';
 import { DamageBySourceChart } from './charts/BreakdownChart.tsx';
 import { EncounterGraph } from './Common.tsx';
+import PhaseSelection from './PhaseSelection.tsx';
+import MeterOptions from './MeterOptions.tsx';
+import RoleSelection, { useRoleFilter } from './RoleSelection.tsx';
+import { useWindowSelection } from './WindowSelection.tsx';
 
 /**
  * Component which displays overview and summary data for an encounter.
  */
 const EncounterDamageDone = observer(() => {
     const encounter = useEncounter();
+    const { filter, grouped, groups, colorOf } = useRoleFilter();
+    const friends = filter(encounter.friends);
+
+    /**
+     * Render a damage meter for a group of allies.
+     *
+     * @param title the title of the meter
+     * @param entities the allies
+     */
+    const friendsMeter = (title: string, entities: EncounterEntityState[]) => (
+        <OverallDamageDealtChart
+            key={title}
+            active
+            title={title}
+            entities={entities}
+            customize={(item) => ({
+                link: `/encounter/${encounter.id}/character/${item.index}?mode=damage-done`,
+                background: colorOf(item, `#4A58A4`),
+            })}
+        />
+    );
+
     return (
         <>
+            <PhaseSelection />
+            <MeterOptions />
+            <RoleSelection />
             <EncounterGraph title={`damage dealt by allies & enemies`}>
                 <DamageTimelineGraph />
             </EncounterGraph>
             <EncounterSummaryContainer>
+                {grouped ? (
+                    <MeterGroup>
+                        {groups(friends).map((it) =>
+                            friendsMeter(`damage dealt by ${it.title}`, it.entities),
+                        )}
+                    </MeterGroup>
+                ) : (
+                    friendsMeter(`damage dealt by allies`, friends)
+                )}
                 <OverallDamageDealtChart
-                    title={`damage dealt by allies`}
-                    entities={encounter.friends}
-                    customize={(item) => ({
-                        link: `/encounter/${encounter.id}/character/${item.index}?mode=damage-done`,
-                        background: `#4A58A4`,
-                    })}
-                />
-                <OverallDamageDealtChart
+                    active
                     title={`damage dealt by enemies`}
                     entities={encounter.enemies}
                     customize={(item) => ({
@@ -42,7 +80,7 @@ const EncounterDamageDone = observer(() => {
             <EncounterSummaryContainer>
                 <DamageBySourceChart
                     title={'damage dealt by allies by source'}
-                    entities={encounter.friends}
+                    entities={friends}
                 />
                 <DamageBySourceChart
                     title={'damage dealt by enemies by source'}
@@ -55,6 +93,16 @@ const EncounterDamageDone = observer(() => {
 
 export default EncounterDamageDone;
 
+/**
+ * A container div for a group of damage meters, one above the other.
+ */
+const MeterGroup = styled.div`
+    width: 100%;
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+`;
+
 /**
  * A container div for the encounter damage done charts.
  */
@@ -72,19 +120,10 @@ const EncounterSummaryContainer = styled.div`
  */
 const DamageTimelineGraph = () => {
     const encounter = useEncounter();
+    const { handlers, selection } = useWindowSelection();
 
-    const friendsData = toDPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        encounter.friends.map((it) => it.id),
-    );
-    const enemyData = toDPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        encounter.enemies.map((it) => it.id),
-    );
+    const friendsData = encounter.dpsData(encounter.friends.map((it) => it.id));
+    const enemyData = encounter.dpsData(encounter.enemies.map((it) => it.id));
 
     const data = zipWith(friendsData, enemyData, (a, b) => {
         return {
@@ -104,6 +143,7 @@ const DamageTimelineGraph = () => {
                     left: -4,
                     bottom: 0,
                 }}
+                {...handlers}
             >
                 <XAxis
                     dataKey='time'
@@ -117,6 +157,14 @@ const DamageTimelineGraph = () => {
                 />
                 <Line type='monotone' dataKey='ally dps' stroke='#70bfff' dot={false} />
                 <Line type='monotone' dataKey='enemy dps' stroke={theme.color.error} dot={false} />
+                {selection && (
+                    <ReferenceArea
+                        x1={selection.from}
+                        x2={selection.to}
+                        fill={theme.color.secondary}
+                        fillOpacity={0.25}
+                    />
+                )}
             </LineChart>
         </ResponsiveContainer>
     );
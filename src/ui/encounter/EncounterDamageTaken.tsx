@@ -1,15 +1,24 @@
-import { toDPSData } from '@aysi-e/thj-parser-lib';
 import { observer } from 'mobx-react';
 import { zipWith } from 'lodash';
 import styled from 'styled-components';
 import theme from '../../theme.tsx';
-import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+    Line,
+    LineChart,
+    ReferenceArea,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts';
 import { Duration } from 'luxon';
 import { shortenNumber } from '../../util/numbers.ts';
 import { useEncounter } from '../../state/encounter.ts';
 import { OverallDamageTakenChart } from './charts/ByCharacterChart.tsx';
 import { DamageBySourceChart } from './charts/BreakdownChart.tsx';
 import { EncounterGraph } from './Common.tsx';
+import PhaseSelection from './PhaseSelection.tsx';
+import { useWindowSelection } from './WindowSelection.tsx';
 
 /**
  * Component which displays overview and summary data for an encounter.
@@ -18,6 +27,7 @@ const EncounterDamageTaken = observer(() => {
     const encounter = useEncounter();
     return (
         <>
+            <PhaseSelection />
             <EncounterGraph title={`damage taken by allies & enemies`}>
                 <DamageTimelineGraph />
             </EncounterGraph>
@@ -74,17 +84,12 @@ const EncounterSummaryContainer = styled.div`
  */
 const DamageTimelineGraph = () => {
     const encounter = useEncounter();
-    const friendsData = toDPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
+    const { handlers, selection } = useWindowSelection();
+    const friendsData = encounter.dpsData(
         undefined,
         encounter.friends.map((it) => it.id),
     );
-    const enemyData = toDPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
+    const enemyData = encounter.dpsData(
         undefined,
         encounter.enemies.map((it) => it.id),
     );
@@ -107,6 +112,7 @@ const DamageTimelineGraph = () => {
                     left: -4,
                     bottom: 0,
                 }}
+                {...handlers}
             >
                 <XAxis
                     dataKey='time'
@@ -120,6 +126,14 @@ const DamageTimelineGraph = () => {
                 />
                 <Line type='monotone' dataKey='ally dtps' stroke='#70bfff' dot={false} />
                 <Line type='monotone' dataKey='enemy dtps' stroke={theme.color.error} dot={false} />
+                {selection && (
+                    <ReferenceArea
+                        x1={selection.from}
+                        x2={selection.to}
+                        fill={theme.color.secondary}
+                        fillOpacity={0.25}
+                    />
+                )}
             </LineChart>
         </ResponsiveContainer>
     );
@@ -0,0 +1,322 @@
+import { observer } from 'mobx-react';
+import { zipWith } from 'lodash';
+import styled from 'styled-components';
+import theme, { ComponentProps } from '../../theme.tsx';
+import {
+    Line,
+    LineChart,
+    ReferenceLine,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts';
+import { DateTime, Duration, Interval } from 'luxon';
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { shortenNumber } from '../../util/numbers.ts';
+import { DeathEvent, EncounterEntityState, useEncounter } from '../../state/encounter.ts';
+import { EncounterGraph } from './Common.tsx';
+import { Box } from '../Common.tsx';
+import { EventItem } from './EncounterEventLog.tsx';
+
+/**
+ * Component which displays each death that occurred during an encounter.
+ */
+const EncounterDeaths = observer(() => {
+    const encounter = useEncounter();
+    return (
+        <>
+            <EncounterGraph title={`deaths during encounter`}>
+                <DeathTimelineGraph deaths={encounter.deaths} />
+            </EncounterGraph>
+            <EncounterSummaryContainer>
+                <DeathList title={`deaths during encounter`} deaths={encounter.deaths} />
+            </EncounterSummaryContainer>
+        </>
+    );
+});
+
+export default EncounterDeaths;
+
+/**
+ * A container div for the encounter death charts.
+ */
+const EncounterSummaryContainer = styled.div`
+    margin-top: 8px;
+    display: flex;
+    justify-content: space-around;
+    gap: 8px;
+`;
+
+/**
+ * Component which contains a damage done graph, with a marker for each death.
+ *
+ * @constructor
+ */
+export const DeathTimelineGraph = ({ deaths }: { deaths: DeathEvent[] }) => {
+    const encounter = useEncounter();
+
+    const friendsData = encounter.dpsData(encounter.friends.map((it) => it.id));
+    const enemyData = encounter.dpsData(encounter.enemies.map((it) => it.id));
+
+    const data = zipWith(friendsData, enemyData, (a, b) => {
+        return {
+            time: a.time,
+            'ally dps': a.dps,
+            'enemy dps': b.dps,
+        };
+    });
+
+    return (
+        <ResponsiveContainer width='100%' height={270}>
+            <LineChart
+                data={data}
+                margin={{
+                    top: 16,
+                    right: 12,
+                    left: -4,
+                    bottom: 0,
+                }}
+            >
+                <XAxis
+                    dataKey='time'
+                    interval={friendsData.length > 450 ? 59 : friendsData.length > 60 ? 29 : 5}
+                    tickFormatter={(i) => Duration.fromMillis(i * 1000).toFormat(`m:ss`)}
+                />
+                <YAxis tickFormatter={(i) => shortenNumber(i)} />
+                <Tooltip
+                    labelFormatter={(label) => Duration.fromMillis(label * 1000).toFormat(`m:ss`)}
+                    contentStyle={{ background: 'black' }}
+                />
+                <Line type='monotone' dataKey='ally dps' stroke='#70bfff' dot={false} />
+                <Line type='monotone' dataKey='enemy dps' stroke={theme.color.error} dot={false} />
+                {deaths.map((death, index) => (
+                    <ReferenceLine
+                        key={`death-${index}`}
+                        x={Math.floor((death.timestamp - encounter.start.toMillis()) / 1000)}
+                        stroke={
+                            encounter.getEntityById(death.killedId).isEnemy
+                                ? theme.color.mediumGrey
+                                : theme.color.error
+                        }
+                        strokeDasharray='3 3'
+                    />
+                ))}
+            </LineChart>
+        </ResponsiveContainer>
+    );
+};
+
+/**
+ * Props accepted by the DeathList component.
+ */
+type DeathListProps = {
+    /**
+     * The title to use for this death list.
+     */
+    title: string;
+
+    /**
+     * The deaths to display.
+     */
+    deaths: DeathEvent[];
+
+    /**
+     * Text to display if there are no deaths.
+     */
+    empty?: string;
+};
+
+/**
+ * A list of deaths which can be expanded to show a recap of each death.
+ *
+ * @constructor
+ */
+export const DeathList = observer((props: DeathListProps & ComponentProps) => {
+    const [selected, setSelected] = useState(props.deaths.length === 1 ? 0 : -1);
+    const encounter = useEncounter();
+
+    if (!props.deaths.length)
+        return (
+            <DeathBox background={`secondary`} header={props.title} className={props.className}>
+                <EmptyText>{props.empty ?? `nobody died during this encounter`}</EmptyText>
+            </DeathBox>
+        );
+
+    return (
+        <DeathBox background={`secondary`} header={props.title} className={props.className}>
+            {props.deaths.map((death, index) => {
+                const killed = encounter.getEntityById(death.killedId);
+                const killer = encounter.getEntityById(death.killerId);
+                const time = Interval.fromDateTimes(
+                    encounter.start,
+                    DateTime.fromMillis(death.timestamp),
+                )
+                    .toDuration()
+                    .toFormat(`m:ss`);
+                return (
+                    <div key={`death-${index}`}>
+                        <DeathItem
+                            $index={index}
+                            $selected={index === selected}
+                            onClick={() => setSelected(index === selected ? -1 : index)}
+                        >
+                            <DeathTime>{time}</DeathTime>
+                            <DeathEntity entity={killed} />
+                            <DeathText>killed by</DeathText>
+                            {killer ? (
+                                <DeathEntity entity={killer} />
+                            ) : (
+                                <DeathText>unknown</DeathText>
+                            )}
+                        </DeathItem>
+                        {index === selected && <DeathRecapView entity={killed} death={death} />}
+                    </div>
+                );
+            })}
+        </DeathBox>
+    );
+});
+
+/**
+ * Container div for the death list.
+ */
+const DeathBox = styled(Box)`
+    width: 1000px;
+`;
+
+/**
+ * Styled div for an empty death list.
+ */
+const EmptyText = styled.div`
+    padding: 8px;
+    text-align: center;
+    background: ${theme.color.darkerBackground};
+`;
+
+/**
+ * A death list item.
+ */
+const DeathItem = styled.div<{ $index: number; $selected: boolean }>`
+    padding: 4px;
+    display: flex;
+    gap: 4px;
+    cursor: pointer;
+    user-select: none;
+
+    background: ${(props) =>
+        props.$selected
+            ? theme.color.selected
+            : props.$index % 2
+              ? theme.color.darkerGrey
+              : theme.color.darkerBackground};
+
+    &:hover {
+        background: ${theme.color.selected};
+    }
+`;
+
+/**
+ * Styled div for the time of a death.
+ */
+const DeathTime = styled.div`
+    padding: 4px;
+    font-size: 0.9em;
+`;
+
+/**
+ * Styled div for death list text.
+ */
+const DeathText = styled.div<{ $color?: string }>`
+    color: ${(props) => props.$color};
+    padding: 4px;
+    line-height: 1em;
+`;
+
+/**
+ * Component which links to the character page for an entity in the death list.
+ */
+const DeathEntity = ({ entity }: { entity: EncounterEntityState }) => {
+    const encounter = useEncounter();
+    return (
+        <DeathLink
+            $color={entity.isEnemy ? theme.color.error : `#b6d1ff`}
+            to={`/encounter/${encounter.id}/character/${entity.index}?mode=deaths`}
+            onClick={(e) => e.stopPropagation()}
+        >
+            <DeathText>{entity.name}</DeathText>
+        </DeathLink>
+    );
+};
+
+/**
+ * Styled link for an entity in the death list.
+ */
+const DeathLink = styled(Link)<{ $color?: string }>`
+    color: ${(props) => props.$color || `#b6d1ff`};
+    font-weight: bold;
+    text-decoration: underline dotted;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
+
+/**
+ * Component which displays the damage and healing an entity received before it died.
+ *
+ * @constructor
+ */
+const DeathRecapView = ({ entity, death }: { entity: EncounterEntityState; death: DeathEvent }) => {
+    const encounter = useEncounter();
+    const recap = entity.deathRecap(death);
+    const killingBlow = recap.killingBlow;
+    const killer = killingBlow ? encounter.getEntityById(killingBlow.sourceId) : undefined;
+
+    return (
+        <RecapContainer>
+            <RecapSummary>
+                <DeathText>
+                    in the last {recap.events.length} events, took{' '}
+                    <strong>{recap.damageTaken.toLocaleString()}</strong> damage and received{' '}
+                    <strong>{recap.healingReceived.toLocaleString()}</strong> healing (
+                    <strong>{(recap.healingReceived - recap.damageTaken).toLocaleString()}</strong>{' '}
+                    health)
+                </DeathText>
+                {killingBlow && killer && (
+                    <DeathText>
+                        killing blow: <strong>{killer.name}</strong> for{' '}
+                        <strong>{killingBlow.amount.toLocaleString()}</strong>
+                    </DeathText>
+                )}
+            </RecapSummary>
+            {recap.events.map((event, index) => (
+                <EventItem event={event} index={index} key={index} />
+            ))}
+        </RecapContainer>
+    );
+};
+
+/**
+ * Container div for a death recap.
+ */
+const RecapContainer = styled.div`
+    border-top: 1px solid ${theme.color.secondary};
+    border-bottom: 1px solid ${theme.color.secondary};
+    background: ${theme.color.darkerBackground};
+`;
+
+/**
+ * Styled div for the death recap summary.
+ */
+const RecapSummary = styled.div`
+    padding: 4px;
+    display: flex;
+    justify-content: space-between;
+    border-bottom: 1px solid ${theme.color.darkerGrey};
+`;
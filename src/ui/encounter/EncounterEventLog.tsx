@@ -1,6 +1,6 @@
-import { HandlerEvent, toDPSData, toHPSData } from '@aysi-e/thj-parser-lib';
+import { HandlerEvent } from '@aysi-e/thj-parser-lib';
 import { observer } from 'mobx-react';
-import { zipWith } from 'lodash';
+import { sortBy, zipWith } from 'lodash';
 import styled from 'styled-components';
 import theme, { ComponentProps } from '../../theme.tsx';
 import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
@@ -12,6 +12,7 @@ import { Box } from '../Common.tsx';
 import { Link } from 'react-router-dom';
 import { useState } from 'react';
 import { SelectButton } from '../SelectButton.tsx';
+import { CustomEvent } from '../../parser/matchers.ts';
 
 /**
  * Component which displays overview and summary data for an encounter.
@@ -23,7 +24,7 @@ const EncounterEventLog = observer(() => {
                 <DamageTimelineGraph />
             </EncounterGraph>
             <EncounterSummaryContainer>
-                <EventLog title={`event log for encounter`} />
+                <EventLog title={`event log for encounter`} custom />
             </EncounterSummaryContainer>
         </>
     );
@@ -49,31 +50,11 @@ const EncounterSummaryContainer = styled.div`
 const DamageTimelineGraph = () => {
     const encounter = useEncounter();
 
-    const friendsData = toDPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        encounter.friends.map((it) => it.id),
-    );
-    const enemyData = toDPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        encounter.enemies.map((it) => it.id),
-    );
+    const friendsData = encounter.dpsData(encounter.friends.map((it) => it.id));
+    const enemyData = encounter.dpsData(encounter.enemies.map((it) => it.id));
 
-    const friendsHPSData = toHPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        encounter.friends.map((it) => it.id),
-    );
-    const enemyHPSData = toHPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        encounter.enemies.map((it) => it.id),
-    );
+    const friendsHPSData = encounter.hpsData(encounter.friends.map((it) => it.id));
+    const enemyHPSData = encounter.hpsData(encounter.enemies.map((it) => it.id));
 
     const data = zipWith(friendsData, enemyData, friendsHPSData, enemyHPSData, (a, b, c, d) => {
         return {
@@ -129,6 +110,11 @@ type EventLogProps = {
      * @param event the event to filter
      */
     filter?: (event: HandlerEvent) => boolean;
+
+    /**
+     * Should we include the custom events found by user-defined line matchers?
+     */
+    custom?: boolean;
 };
 
 /**
@@ -140,7 +126,12 @@ export const EventLog = (props: EventLogProps & ComponentProps) => {
     const encounter = useEncounter();
     const [end, setEnd] = useState(500);
     const filter = props.filter ? props.filter : () => true;
-    const events = encounter.events.filter(filter);
+    const events: (HandlerEvent | CustomEvent)[] = props.custom
+        ? sortBy(
+              [...encounter.events.filter(filter), ...encounter.customEvents],
+              (it) => it.timestamp,
+          )
+        : encounter.events.filter(filter);
     return (
         <EventBox background={`secondary`} header={props.title} className={props.className}>
             <EventItemContainer>
@@ -191,7 +182,13 @@ const EventItemContainer = styled.div`
 /**
  * An event item which.
  */
-const EventItem = ({ event, index }: { event: HandlerEvent; index: number }) => {
+export const EventItem = ({
+    event,
+    index,
+}: {
+    event: HandlerEvent | CustomEvent;
+    index: number;
+}) => {
     const encounter = useEncounter();
     const time = Interval.fromDateTimes(encounter.start, DateTime.fromMillis(event.timestamp))
         .toDuration()
@@ -341,6 +338,14 @@ const EventItem = ({ event, index }: { event: HandlerEvent; index: number }) =>
                 />,
             );
             break;
+        case 'custom':
+            elements.push(
+                <EventText $color={theme.color.secondary} key={`${index}-type`}>
+                    {`[${event.name}]`}
+                </EventText>,
+                <EventText key={`${index}-text`}>{event.text}</EventText>,
+            );
+            break;
     }
 
     return (
@@ -1,9 +1,11 @@
-import { toHPSData } from '@aysi-e/thj-parser-lib';
 import { observer } from 'mobx-react';
 import { zipWith } from 'lodash';
 import styled from 'styled-components';
-import { useEncounter } from '../../state/encounter.ts';
+import { EncounterEntityState, useEncounter } from '../../state/encounter.ts';
 import { EncounterGraph } from './Common.tsx';
+import PhaseSelection from './PhaseSelection.tsx';
+import MeterOptions from './MeterOptions.tsx';
+import RoleSelection, { useRoleFilter } from './RoleSelection.tsx';
 import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import { Duration } from 'luxon';
 import { shortenNumber } from '../../util/numbers.ts';
@@ -17,22 +19,48 @@ import {
  */
 const EncounterHealing = observer(() => {
     const encounter = useEncounter();
+    const { filter, grouped, groups, colorOf } = useRoleFilter();
+    const friends = filter(encounter.friends);
+
+    /**
+     * Render a healing meter for a group of allies.
+     *
+     * @param title the title of the meter
+     * @param entities the allies
+     */
+    const friendsMeter = (title: string, entities: EncounterEntityState[]) => (
+        <OverallHealingDoneChart
+            key={title}
+            active
+            title={title}
+            entities={entities}
+            customize={(item) => ({
+                link: `/encounter/${encounter.id}/character/${item.index}?mode=healing`,
+                background: colorOf(item, `#33622d`),
+            })}
+        />
+    );
 
     return (
         <>
+            <PhaseSelection />
+            <MeterOptions />
+            <RoleSelection />
             <EncounterGraph title={`healing by allies & enemies`}>
                 <HealingTimelineGraph />
             </EncounterGraph>
             <EncounterSummaryContainer>
+                {grouped ? (
+                    <MeterGroup>
+                        {groups(friends).map((it) =>
+                            friendsMeter(`healing done by ${it.title}`, it.entities),
+                        )}
+                    </MeterGroup>
+                ) : (
+                    friendsMeter(`healing done by allies`, friends)
+                )}
                 <OverallHealingDoneChart
-                    title={`healing done by allies`}
-                    entities={encounter.friends}
-                    customize={(item) => ({
-                        link: `/encounter/${encounter.id}/character/${item.index}?mode=healing`,
-                        background: `#33622d`,
-                    })}
-                />
-                <OverallHealingDoneChart
+                    active
                     title={`healing done by enemies`}
                     entities={encounter.enemies}
                     customize={(item) => ({
@@ -44,10 +72,10 @@ const EncounterHealing = observer(() => {
             <EncounterSummaryContainer>
                 <OverallHealingReceivedChart
                     title={`healing received by allies`}
-                    entities={encounter.friends}
+                    entities={friends}
                     customize={(item) => ({
                         link: `/encounter/${encounter.id}/character/${item.index}?mode=healing`,
-                        background: `#33622d`,
+                        background: colorOf(item, `#33622d`),
                     })}
                 />
                 <OverallHealingReceivedChart
@@ -65,6 +93,16 @@ const EncounterHealing = observer(() => {
 
 export default EncounterHealing;
 
+/**
+ * A container div for a group of healing meters, one above the other.
+ */
+const MeterGroup = styled.div`
+    width: 100%;
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+`;
+
 /**
  * A container div for the encounter healing charts.
  */
@@ -83,18 +121,8 @@ const EncounterSummaryContainer = styled.div`
 const HealingTimelineGraph = () => {
     const encounter = useEncounter();
 
-    const friendsData = toHPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        encounter.friends.map((it) => it.id),
-    );
-    const enemyData = toHPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        encounter.enemies.map((it) => it.id),
-    );
+    const friendsData = encounter.hpsData(encounter.friends.map((it) => it.id));
+    const enemyData = encounter.hpsData(encounter.enemies.map((it) => it.id));
 
     const data = zipWith(friendsData, enemyData, (a, b) => {
         return {
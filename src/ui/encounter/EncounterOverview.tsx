@@ -1,41 +1,49 @@
-import { Encounter, toDPSData } from '@aysi-e/thj-parser-lib';
 import { observer } from 'mobx-react';
 import { isEmpty, map, partition, size, values, zipWith } from 'lodash';
 import styled from 'styled-components';
 import theme from '../../theme.tsx';
-import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+    Line,
+    LineChart,
+    ReferenceArea,
+    ReferenceLine,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts';
 import { Duration } from 'luxon';
 import { shortenNumber } from '../../util/numbers.ts';
 import { UI_WARNING, UIIcon } from '../Icon.tsx';
 import { Link } from 'react-router-dom';
+import { useEncounter } from '../../state/encounter.ts';
+import { LogEncounter } from '../../state/log.ts';
+import { useState } from 'react';
+import EncounterBoundaries from './EncounterBoundaries.tsx';
+import { useWindowSelection } from './WindowSelection.tsx';
+import PhaseSelection from './PhaseSelection.tsx';
+import { parseWindowId } from '../../state/windows.ts';
 
 /**
  * Props accepted by the EncounterOverview component.
  */
 type Props = {
-    encounter: Encounter;
+    encounter: LogEncounter;
 };
 
 /**
  * Component which displays overview and summary data for an encounter.
  */
 const EncounterOverview = observer(({ encounter }: Props) => {
+    const state = useEncounter();
+    const [splitAt, setSplitAt] = useState<number>();
+    const { handlers, selection } = useWindowSelection(setSplitAt);
     const [enemies, friends] = partition(
         values(encounter.entities).filter((it) => it.name !== `Unknown`),
         (it) => it.isEnemy,
     );
-    const friendsData = toDPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        friends.map((it) => it.id),
-    );
-    const enemyData = toDPSData(
-        encounter.timeline,
-        undefined,
-        undefined,
-        enemies.map((it) => it.id),
-    );
+    const friendsData = state.dpsData(friends.map((it) => it.id));
+    const enemyData = state.dpsData(enemies.map((it) => it.id));
     const data = zipWith(friendsData, enemyData, (a, b) => {
         return {
             time: a.time,
@@ -43,10 +51,13 @@ const EncounterOverview = observer(({ encounter }: Props) => {
             'enemy dps': b.dps,
         };
     });
+    // phases of a window of time would be confusing, so they're only shown for the whole encounter.
+    const phases = parseWindowId(`${state.id}`).window ? [] : state.phases.slice(1);
     return (
         <>
+            <PhaseSelection editable markAt={splitAt} />
             <OverviewGraphContainer>
-                <Header>encounter overview</Header>
+                <Header>encounter overview (drag to select a window of time)</Header>
                 <ResponsiveContainer width='100%' height={270}>
                     <LineChart
                         data={data}
@@ -56,6 +67,7 @@ const EncounterOverview = observer(({ encounter }: Props) => {
                             left: -4,
                             bottom: 0,
                         }}
+                        {...handlers}
                     >
                         <XAxis
                             dataKey='time'
@@ -78,9 +90,29 @@ const EncounterOverview = observer(({ encounter }: Props) => {
                             stroke={theme.color.error}
                             dot={false}
                         />
+                        {phases.map((phase) => (
+                            <ReferenceLine
+                                key={phase.from}
+                                x={phase.from}
+                                stroke={theme.color.white}
+                                strokeDasharray='4 4'
+                            />
+                        ))}
+                        {splitAt !== undefined && (
+                            <ReferenceLine x={splitAt} stroke={theme.color.secondary} />
+                        )}
+                        {selection && (
+                            <ReferenceArea
+                                x1={selection.from}
+                                x2={selection.to}
+                                fill={theme.color.secondary}
+                                fillOpacity={0.25}
+                            />
+                        )}
                     </LineChart>
                 </ResponsiveContainer>
             </OverviewGraphContainer>
+            <EncounterBoundaries key={encounter.id} encounter={encounter} splitAt={splitAt} />
             <EncounterWarnings encounter={encounter} />
             <EntityContainer>
                 <ContentContainer>
@@ -6,6 +6,7 @@ import { UI_CANCEL, UI_WARNING, UIIcon } from '../Icon.tsx';
 import theme from '../../theme.tsx';
 import Tooltip, { BasicTooltip } from '../Tooltip.tsx';
 import { Link, useSearchParams } from 'react-router-dom';
+import { formatWindow, parseWindowId } from '../../state/windows.ts';
 
 /**
  * Component which displays a title bar for an encounter.
@@ -16,6 +17,8 @@ const EncounterTitle = () => {
     const encounter = useEncounter();
     const [nav] = useSearchParams();
     const mode = nav.get('mode');
+    const boss = encounter.enemies.find((it) => it.isBoss);
+    const { base, window } = parseWindowId(`${encounter.id}`);
     const startText = encounter.start.toLocaleString({
         month: 'short',
         day: '2-digit',
@@ -38,9 +41,21 @@ const EncounterTitle = () => {
                     </Text>
                 </Link>
             </Content>
-            <ButtonContainer to={`/encounter`}>
-                <UIIcon path={UI_CANCEL} height={24} width={24} />
-            </ButtonContainer>
+            <Content>
+                {window && (
+                    <HistoryLink to={`/encounter/${base}${mode ? `?mode=${mode}` : ``}`}>
+                        {`showing ${formatWindow(window)} (clear)`}
+                    </HistoryLink>
+                )}
+                {boss && (
+                    <HistoryLink to={`/encounter/boss/${encodeURIComponent(boss.name)}`}>
+                        pull history
+                    </HistoryLink>
+                )}
+                <ButtonContainer to={`/encounter`}>
+                    <UIIcon path={UI_CANCEL} height={24} width={24} />
+                </ButtonContainer>
+            </Content>
         </TitleHeader>
     );
 };
@@ -196,3 +211,20 @@ const ButtonContainer = styled(Link)`
         background-color: rgba(0, 0, 0, 0.5);
     }
 `;
+
+/**
+ * Styled link to the progression history of the encounter's boss.
+ */
+const HistoryLink = styled(Link)`
+    display: flex;
+    align-items: center;
+    padding: 0 8px;
+
+    &:hover {
+        background-color: rgba(0, 0, 0, 0.25);
+    }
+
+    &:active {
+        background-color: rgba(0, 0, 0, 0.5);
+    }
+`;
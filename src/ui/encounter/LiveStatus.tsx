@@ -0,0 +1,77 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext } from 'react';
+import { Link } from 'react-router-dom';
+import { LogContext } from '../../state/log.ts';
+import theme from '../../theme.tsx';
+import { SelectButton } from '../SelectButton.tsx';
+
+/**
+ * Component which shows that a log file is being watched for new encounters, allowing the user to
+ * stop watching it.
+ *
+ * @constructor
+ */
+const LiveStatus = observer(() => {
+    const log = useContext(LogContext);
+    if (!log.watching) return <></>;
+
+    return (
+        <Status>
+            <StatusText>
+                <LiveDot /> watching <strong>{log.watching.name}</strong>
+            </StatusText>
+            <Link to={`/live`}>
+                <StatusButton>live meter</StatusButton>
+            </Link>
+            <StatusButton onClick={() => log.stopWatching()}>stop</StatusButton>
+        </Status>
+    );
+});
+
+export default LiveStatus;
+
+/**
+ * Styled container div for the live status.
+ */
+const Status = styled.div`
+    margin-left: auto;
+    display: flex;
+    align-items: center;
+`;
+
+/**
+ * Styled text for the live status.
+ */
+const StatusText = styled.div`
+    padding: 8px;
+    display: flex;
+    align-items: center;
+    gap: 6px;
+`;
+
+/**
+ * A dot which pulses while the log file is being watched.
+ */
+const LiveDot = styled.span`
+    display: inline-block;
+    width: 8px;
+    height: 8px;
+    border-radius: 50%;
+    background-color: ${theme.color.error};
+    animation: pulse 2s ease-in-out infinite;
+
+    @keyframes pulse {
+        50% {
+            opacity: 0.25;
+        }
+    }
+`;
+
+/**
+ * Styled button for a live status action.
+ */
+const StatusButton = styled(SelectButton)`
+    height: 100%;
+    font-size: 1em;
+`;
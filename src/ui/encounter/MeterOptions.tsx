@@ -0,0 +1,106 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext } from 'react';
+import {
+    GAP_TOLERANCES,
+    MeterSettingsContext,
+    PER_SECOND_MODES,
+    PerSecondMode,
+} from '../../state/settings.ts';
+import theme from '../../theme.tsx';
+
+/**
+ * The text shown on the button for each way of calculating per-second values.
+ */
+const PER_SECOND_TEXT: Record<PerSecondMode, string> = {
+    encounter: `the whole encounter`,
+    present: `first to last action`,
+    active: `active time`,
+};
+
+/**
+ * Component which lets the user choose how the damage and healing meters count time, showing a
+ * per-second column for each of the whole encounter, each entity's first to last action and each
+ * entity's active time, and whether pets are shown separately or with their owners.
+ *
+ * @constructor
+ */
+const MeterOptions = observer(() => {
+    const settings = useContext(MeterSettingsContext);
+    return (
+        <OptionsContainer>
+            <OptionsText>per second over</OptionsText>
+            {PER_SECOND_MODES.map((mode) => (
+                <OptionButton
+                    key={mode}
+                    selected={settings.perSecond.includes(mode)}
+                    onClick={() => settings.togglePerSecond(mode)}
+                >
+                    {PER_SECOND_TEXT[mode]}
+                </OptionButton>
+            ))}
+            <OptionsText $spaced>count gaps between actions as active up to</OptionsText>
+            {GAP_TOLERANCES.map((seconds) => (
+                <OptionButton
+                    key={seconds}
+                    selected={settings.gapTolerance === seconds}
+                    onClick={() => settings.setGapTolerance(seconds)}
+                >
+                    {`${seconds}s`}
+                </OptionButton>
+            ))}
+            <OptionsText $spaced>pets</OptionsText>
+            <OptionButton
+                selected={!settings.mergePets}
+                onClick={() => settings.setMergePets(false)}
+            >
+                separate
+            </OptionButton>
+            <OptionButton selected={settings.mergePets} onClick={() => settings.setMergePets(true)}>
+                with owners
+            </OptionButton>
+        </OptionsContainer>
+    );
+});
+
+export default MeterOptions;
+
+/**
+ * Styled container div for the meter options.
+ */
+const OptionsContainer = styled.div`
+    margin-bottom: 8px;
+    padding: 8px;
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 4px 8px;
+    border: ${theme.color.secondary} 1px solid;
+    background-color: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    font-family: ${theme.font.header};
+`;
+
+/**
+ * Styled text for the meter options.
+ */
+const OptionsText = styled.span<{ $spaced?: boolean }>`
+    margin-left: ${(props) => (props.$spaced ? `16px` : `0`)};
+`;
+
+/**
+ * Styled button for a meter option.
+ */
+const OptionButton = styled.button<{ selected?: boolean }>`
+    padding: 4px 8px;
+    border: 1px solid ${theme.color.secondary};
+    background: ${(props) => (props.selected ? theme.color.selected : theme.color.darkerGrey)};
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+`;
@@ -0,0 +1,64 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext } from 'react';
+import { sortBy } from 'lodash';
+import { EncounterEntityState, useEncounter } from '../../state/encounter.ts';
+import { LogContext } from '../../state/log.ts';
+import theme from '../../theme.tsx';
+
+/**
+ * Component which lets the user assign an allied entity to an owner as their pet, for pets whose
+ * owner the log didn't reveal.
+ *
+ * @param entity the entity
+ * @constructor
+ */
+const PetOwnerSelect = observer(({ entity }: { entity: EncounterEntityState }) => {
+    const log = useContext(LogContext);
+    const encounter = useEncounter();
+    const owners = sortBy(
+        encounter.friends.filter((it) => !it.isPet && it !== entity),
+        (it) => it.name,
+    );
+    return (
+        <OwnerContainer>
+            <OwnerInput
+                value={log.petOwners[entity.name] ?? ``}
+                onChange={(e) => log.setPetOwner(entity.name, e.target.value || undefined)}
+            >
+                <option value={``}>
+                    {entity.isPet
+                        ? `pet of ${entity.owner?.name || `unknown`} (from log)`
+                        : `not a pet`}
+                </option>
+                {owners.map((it) => (
+                    <option key={it.id} value={it.name}>
+                        {`pet of ${it.name}`}
+                    </option>
+                ))}
+            </OwnerInput>
+        </OwnerContainer>
+    );
+});
+
+export default PetOwnerSelect;
+
+/**
+ * Styled container div for the pet owner select.
+ */
+const OwnerContainer = styled.div`
+    display: flex;
+    align-items: center;
+    padding: 0 8px;
+`;
+
+/**
+ * Styled select input for the pet owner.
+ */
+const OwnerInput = styled.select`
+    padding: 2px 4px;
+    font-family: ${theme.font.content};
+    background: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    border: 1px solid ${theme.color.secondary};
+`;
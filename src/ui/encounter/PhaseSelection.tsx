@@ -0,0 +1,160 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Duration } from 'luxon';
+import EncounterState, { useEncounter } from '../../state/encounter.ts';
+import { LogContext } from '../../state/log.ts';
+import { formatWindow, parseWindowId, toWindowId } from '../../state/windows.ts';
+import { shortenNumber } from '../../util/numbers.ts';
+import theme from '../../theme.tsx';
+
+/**
+ * Props accepted by the PhaseSelection component.
+ */
+type Props = {
+    /**
+     * Can the user place and remove phase markers here?
+     */
+    editable?: boolean;
+
+    /**
+     * The point to place a phase marker at, in seconds from the start of the encounter, if one has
+     * been chosen on the timeline.
+     */
+    markAt?: number;
+};
+
+/**
+ * Component which lets the user choose a phase of the encounter, showing the meters for just that
+ * phase.
+ *
+ * Phases always come from the whole encounter, so that the other phases can still be chosen while
+ * looking at one of them.
+ *
+ * @param props the props accepted by the phase selection component
+ * @constructor
+ */
+const PhaseSelection = observer(({ editable, markAt }: Props) => {
+    const log = useContext(LogContext);
+    const encounter = useEncounter();
+    const [nav] = useSearchParams();
+    const mode = nav.get(`mode`);
+    const search = mode ? `?mode=${mode}` : ``;
+
+    const { base, window } = parseWindowId(`${encounter.id}`);
+    const parent = window ? log.getEncounter(base) : undefined;
+    const whole = useMemo(
+        () => (window ? parent && new EncounterState(parent) : encounter),
+        [parent, encounter],
+    );
+    if (!whole) return <></>;
+
+    // markers can only be placed in encounters which are saved in the log as they are.
+    const id = whole.id;
+    const logEncounter = typeof id === `number` ? log.findEncounter(id) : undefined;
+    const canMark = editable && logEncounter && !logEncounter.live && !log.watching;
+    const phases = whole.phases;
+    if (!phases.length && !canMark) return <></>;
+
+    const toTime = (seconds: number) => Duration.fromMillis(seconds * 1000).toFormat(`m:ss`);
+    return (
+        <PhaseContainer>
+            <PhaseRow>
+                <PhaseText>phases</PhaseText>
+                <Link to={`/encounter/${base}${search}`}>
+                    <PhaseButton selected={!window}>whole fight</PhaseButton>
+                </Link>
+                {phases.map((phase) => (
+                    <Link
+                        key={`${phase.from}-${phase.to}`}
+                        to={`/encounter/${toWindowId(base, phase)}${search}`}
+                    >
+                        <PhaseButton
+                            selected={window?.from === phase.from && window?.to === phase.to}
+                        >
+                            {`${phase.name} (${formatWindow(phase)}, ${shortenNumber(phase.dps)} dps)`}
+                        </PhaseButton>
+                    </Link>
+                ))}
+                {!phases.length && <PhaseText>no phases were detected in this encounter</PhaseText>}
+            </PhaseRow>
+            {canMark && (
+                <PhaseRow>
+                    <PhaseText>phase markers</PhaseText>
+                    {(logEncounter.markers ?? []).map((marker) => (
+                        <PhaseButton key={marker} onClick={() => log.removeMarker(id, marker)}>
+                            {`${toTime((marker - logEncounter.start) / 1000)} (remove)`}
+                        </PhaseButton>
+                    ))}
+                    <PhaseButton
+                        disabled={markAt === undefined}
+                        onClick={() =>
+                            markAt !== undefined &&
+                            log.addMarker(id, logEncounter.start + markAt * 1000)
+                        }
+                    >
+                        {markAt === undefined
+                            ? `click the timeline to place a marker`
+                            : `place a marker at ${toTime(markAt)}`}
+                    </PhaseButton>
+                </PhaseRow>
+            )}
+        </PhaseContainer>
+    );
+});
+
+export default PhaseSelection;
+
+/**
+ * Styled container div for the phase selection.
+ */
+const PhaseContainer = styled.div`
+    margin-bottom: 8px;
+    padding: 4px 8px;
+    border: ${theme.color.secondary} 1px solid;
+    background-color: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    font-family: ${theme.font.header};
+`;
+
+/**
+ * Styled row of phase buttons.
+ */
+const PhaseRow = styled.div`
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 4px 8px;
+    padding: 4px 0;
+`;
+
+/**
+ * Styled text for the phase selection.
+ */
+const PhaseText = styled.span`
+    margin-right: 8px;
+`;
+
+/**
+ * Styled button for a phase or a phase marker.
+ */
+const PhaseButton = styled.button<{ selected?: boolean }>`
+    padding: 4px 8px;
+    border: 1px solid ${theme.color.secondary};
+    background: ${(props) => (props.selected ? theme.color.selected : theme.color.darkerGrey)};
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+
+    &:disabled {
+        cursor: default;
+        opacity: 0.5;
+        filter: none;
+    }
+`;
@@ -0,0 +1,151 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CLASSES, Role, ROLES, useClassOf } from '../../state/classes.ts';
+import { EncounterEntityState } from '../../state/encounter.ts';
+import theme from '../../theme.tsx';
+
+/**
+ * Use the role filter and grouping chosen for the allied meters on an encounter page, which are
+ * kept in the page url (as `role` and `group`).
+ */
+export const useRoleFilter = () => {
+    const [nav] = useSearchParams();
+    const classOf = useClassOf();
+    const role = ROLES.find((it) => it === nav.get(`role`));
+    const grouped = nav.get(`group`) === `role`;
+
+    /**
+     * Get the role of an entity, if its class is known.
+     *
+     * @param entity the entity
+     */
+    const roleOf = (entity: EncounterEntityState): Role | undefined => {
+        const characterClass = classOf(entity);
+        return characterClass && CLASSES[characterClass].role;
+    };
+
+    return {
+        role,
+        grouped,
+        roleOf,
+        classOf,
+
+        /**
+         * Get the entities which have the chosen role, or every entity if no role was chosen.
+         *
+         * @param entities the entities
+         */
+        filter: (entities: EncounterEntityState[]) =>
+            role ? entities.filter((it) => roleOf(it) === role) : entities,
+
+        /**
+         * Split entities into groups by role, leaving out empty groups. Entities whose class isn't
+         * known are grouped last.
+         *
+         * @param entities the entities
+         */
+        groups: (entities: EncounterEntityState[]) =>
+            [...ROLES, undefined]
+                .map((it) => ({
+                    title: it ? `${it}s` : `unknown role`,
+                    entities: entities.filter((entity) => roleOf(entity) === it),
+                }))
+                .filter((it) => it.entities.length),
+
+        /**
+         * Get the meter background color for an entity, from its class if known.
+         *
+         * @param entity the entity
+         * @param fallback the color to use if the entity's class isn't known
+         */
+        colorOf: (entity: EncounterEntityState, fallback: string) => {
+            const characterClass = classOf(entity);
+            return characterClass ? CLASSES[characterClass].color : fallback;
+        },
+    };
+};
+
+/**
+ * Component which lets the user filter the allied meters on an encounter page down to a single
+ * role, or group them by role.
+ *
+ * @constructor
+ */
+const RoleSelection = observer(() => {
+    const [nav] = useSearchParams();
+    const { role, grouped } = useRoleFilter();
+
+    /**
+     * Get the url of the current page with a search parameter changed.
+     *
+     * @param key the search parameter
+     * @param value the new value, or undefined to remove the parameter
+     */
+    const withParam = (key: string, value: string | undefined) => {
+        const params = new URLSearchParams(nav);
+        if (value) params.set(key, value);
+        else params.delete(key);
+        return `?${params.toString()}`;
+    };
+
+    return (
+        <RoleContainer>
+            <RoleText>allies</RoleText>
+            <Link to={withParam(`role`, undefined)}>
+                <RoleButton selected={!role}>everyone</RoleButton>
+            </Link>
+            {ROLES.map((it) => (
+                <Link key={it} to={withParam(`role`, it)}>
+                    <RoleButton selected={role === it}>{`${it}s`}</RoleButton>
+                </Link>
+            ))}
+            <RoleText $spaced>group by role</RoleText>
+            <Link to={withParam(`group`, grouped ? undefined : `role`)}>
+                <RoleButton selected={grouped}>{grouped ? `on` : `off`}</RoleButton>
+            </Link>
+        </RoleContainer>
+    );
+});
+
+export default RoleSelection;
+
+/**
+ * Styled container div for the role selection.
+ */
+const RoleContainer = styled.div`
+    margin-bottom: 8px;
+    padding: 8px;
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 4px 8px;
+    border: ${theme.color.secondary} 1px solid;
+    background-color: ${theme.color.darkerBackground};
+    color: ${theme.color.white};
+    font-family: ${theme.font.header};
+`;
+
+/**
+ * Styled text for the role selection.
+ */
+const RoleText = styled.span<{ $spaced?: boolean }>`
+    margin-left: ${(props) => (props.$spaced ? `16px` : `0`)};
+`;
+
+/**
+ * Styled button for a role.
+ */
+const RoleButton = styled.button<{ selected?: boolean }>`
+    padding: 4px 8px;
+    border: 1px solid ${theme.color.secondary};
+    background: ${(props) => (props.selected ? theme.color.selected : theme.color.darkerGrey)};
+
+    &:hover {
+        filter: brightness(1.35);
+    }
+
+    &:active {
+        filter: brightness(0.65);
+    }
+`;
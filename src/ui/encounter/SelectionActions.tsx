@@ -0,0 +1,144 @@
+import { observer } from 'mobx-react';
+import styled from 'styled-components';
+import { useContext, useState } from 'react';
+import { DateTime } from 'luxon';
+import { useNavigate } from 'react-router-dom';
+import { LogContext } from '../../state/log.ts';
+import { SelectionContext } from '../../state/selection.ts';
+import { REPORT_EXTENSION } from '../../state/report.ts';
+import { SelectButton } from '../SelectButton.tsx';
+import { UI_WARNING, UIIcon } from '../Icon.tsx';
+
+/**
+ * Prompt the browser to download a file.
+ *
+ * @param blob the file contents
+ * @param name the file name
+ */
+const download = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement(`a`);
+    link.href = url;
+    link.download = name;
+    link.click();
+
+    // revoking the url straight away can cancel the download in some browsers.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Component which renders the actions available for a selection of encounters in the encounter
+ * list.
+ *
+ * @constructor
+ */
+const SelectionActions = observer(() => {
+    const log = useContext(LogContext);
+    const selection = useContext(SelectionContext);
+    const navigate = useNavigate();
+    const [error, setError] = useState<string>();
+
+    if (!selection.active)
+        return (
+            <Actions>
+                <ActionButton onClick={() => selection.start()}>compare</ActionButton>
+                <ActionButton onClick={() => selection.start()}>summary</ActionButton>
+                <ActionButton onClick={() => selection.start()}>export report</ActionButton>
+            </Actions>
+        );
+
+    /**
+     * Compare the selected encounters side by side.
+     */
+    const handleCompare = () => {
+        navigate(`/encounter/compare?ids=${selection.ids.join(`,`)}`);
+        selection.stop();
+    };
+
+    /**
+     * Summarize the selected encounters in a single report.
+     */
+    const handleSummary = () => {
+        navigate(`/encounter/summary?ids=${selection.ids.join(`,`)}`);
+        selection.stop();
+    };
+
+    /**
+     * Export the selected encounters as a report file.
+     */
+    const handleExport = () => {
+        const date = log.start ? DateTime.fromMillis(log.start).toFormat(`yyyy-MM-dd`) : `unknown`;
+        setError(undefined);
+        log.exportReport(selection.ids)
+            .then((blob) => {
+                download(blob, `thj-report-${date}${REPORT_EXTENSION}`);
+                selection.stop();
+            })
+            .catch(() => setError(`couldn't export the report`));
+    };
+
+    return (
+        <Actions>
+            {error && (
+                <ErrorText>
+                    <UIIcon height={15} width={15} path={UI_WARNING} />
+                    {error}
+                </ErrorText>
+            )}
+            <ActionText>{selection.ids.length} selected</ActionText>
+            <ActionButton onClick={() => selection.select(log.encounters.map((it) => it.id))}>
+                select all
+            </ActionButton>
+            <ActionButton disabled={selection.ids.length < 2} onClick={handleCompare}>
+                compare
+            </ActionButton>
+            <ActionButton disabled={!selection.ids.length} onClick={handleSummary}>
+                summary
+            </ActionButton>
+            <ActionButton disabled={!selection.ids.length} onClick={handleExport}>
+                export
+            </ActionButton>
+            <ActionButton onClick={() => selection.stop()}>cancel</ActionButton>
+        </Actions>
+    );
+});
+
+export default SelectionActions;
+
+/**
+ * Styled container div for the selection actions.
+ */
+const Actions = styled.div`
+    margin-left: auto;
+    display: flex;
+    align-items: center;
+`;
+
+/**
+ * Styled text for the selection actions.
+ */
+const ActionText = styled.div`
+    padding: 8px;
+`;
+
+/**
+ * Styled text for an error which occurred while exporting a report.
+ */
+const ErrorText = styled(ActionText)`
+    display: flex;
+    align-items: center;
+    gap: 8px;
+`;
+
+/**
+ * Styled button for a selection action.
+ */
+const ActionButton = styled(SelectButton)`
+    height: 100%;
+    font-size: 1em;
+
+    &:disabled {
+        cursor: default;
+        opacity: 0.5;
+    }
+`;
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useEncounter } from '../../state/encounter.ts';
+import { parseWindowId, toWindowId } from '../../state/windows.ts';
+
+/**
+ * The part of a chart's state passed to its mouse handlers that we need.
+ */
+type ChartState = {
+    /**
+     * The label of the point on the x-axis under the mouse, if any.
+     */
+    activeLabel?: string;
+};
+
+/**
+ * Hook which lets the user drag across an encounter timeline graph to select a window of time,
+ * opening the encounter for just that window once the user lets go.
+ *
+ * The returned handlers should be passed to the graph's chart component, and the returned selection
+ * (in seconds from the start of the graph) drawn on the graph while the user is dragging.
+ *
+ * @param onClick called with the time clicked, if the user clicks the graph without dragging
+ */
+export const useWindowSelection = (onClick?: (time: number) => void) => {
+    const encounter = useEncounter();
+    const navigate = useNavigate();
+    const [nav] = useSearchParams();
+    const [start, setStart] = useState<number>();
+    const [end, setEnd] = useState<number>();
+
+    const handlers = {
+        onMouseDown: (state: ChartState) => {
+            if (state?.activeLabel === undefined) return;
+            setStart(+state.activeLabel);
+            setEnd(+state.activeLabel);
+        },
+        onMouseMove: (state: ChartState) => {
+            if (start !== undefined && state?.activeLabel !== undefined) setEnd(+state.activeLabel);
+        },
+        onMouseUp: () => {
+            if (start === undefined || end === undefined) return;
+            setStart(undefined);
+            setEnd(undefined);
+            if (start === end) return onClick?.(start);
+
+            // a window within a window is measured from the start of the whole encounter.
+            const { base, window } = parseWindowId(`${encounter.id}`);
+            const offset = window?.from ?? 0;
+            const id = toWindowId(base, {
+                from: offset + Math.min(start, end),
+                to: offset + Math.max(start, end),
+            });
+            const mode = nav.get(`mode`);
+            navigate(`/encounter/${id}${mode ? `?mode=${mode}` : ``}`);
+        },
+    };
+
+    const selection =
+        start !== undefined && end !== undefined && start !== end
+            ? { from: Math.min(start, end), to: Math.max(start, end) }
+            : undefined;
+    return { handlers, selection };
+};
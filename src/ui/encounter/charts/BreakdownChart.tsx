@@ -16,7 +16,7 @@ import DetailChart, {
     MeleeDetailItem,
     SpellDetailItem,
 } from './DetailChart.tsx';
-import { assign, round, values } from 'lodash';
+import { assign, round, sortBy, values } from 'lodash';
 import { DamageShieldDamage, Healing, MeleeDamage, SpellDamage } from '@aysi-e/thj-parser-lib';
 import theme from '../../../theme.tsx';
 import { shortenNumber } from '../../../util/numbers.ts';
@@ -55,6 +55,10 @@ type BySourceProps = {
      * The columns to render for this breakdown chart.
      */
     columns?: DetailColumn[];
+    /**
+     * The maximum number of rows to display.
+     */
+    limit?: number;
 };
 
 /**
@@ -140,13 +144,18 @@ export const DamageBySourceChart = (props: BySourceProps) => {
         }
     };
 
+    const items = sortBy(
+        values(data).map((it) => toDetailItems(it)),
+        (it) => it.damage.total * -1,
+    );
+
     // the columns to show.
     const columns = props.columns ? props.columns : DAMAGE_BREAKDOWN_DEFAULT_COLUMNS;
 
     return (
         <DetailChart
             title={props.title}
-            items={values(data).map((it) => toDetailItems(it))}
+            items={props.limit ? items.slice(0, props.limit) : items}
             columns={columns}
             header
             footer
@@ -225,6 +234,10 @@ type HealingBySourceProps = {
      * The columns to render for this breakdown chart.
      */
     columns?: DetailColumn[];
+    /**
+     * The maximum number of rows to display.
+     */
+    limit?: number;
 };
 
 /**
@@ -285,13 +298,18 @@ export const HealingBySourceChart = (props: HealingBySourceProps) => {
         ) as HealingDetailItem;
     };
 
+    const items = sortBy(
+        values(data).map((it) => toDetailItems(it)),
+        (it) => it.damage.total * -1,
+    );
+
     // the columns to show.
     const columns = props.columns ? props.columns : DAMAGE_BREAKDOWN_DEFAULT_COLUMNS;
 
     return (
         <DetailChart
             title={props.title}
-            items={values(data).map((it) => toDetailItems(it))}
+            items={props.limit ? items.slice(0, props.limit) : items}
             columns={columns}
             header
             footer
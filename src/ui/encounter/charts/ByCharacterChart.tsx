@@ -1,7 +1,16 @@
-import { assign, round } from 'lodash';
-import { EncounterEntityState, useEncounter } from '../../../state/encounter.ts';
+import { observer } from 'mobx-react';
+import { useContext } from 'react';
+import { assign, flatMap, round, sortedUniq, sortBy, sumBy } from 'lodash';
+import {
+    EncounterEntityState,
+    toActiveTime,
+    toPresentTime,
+    useEncounter,
+} from '../../../state/encounter.ts';
 import DamageMeter, { MeterColumn, MeterItem } from './DamageMeter.tsx';
 import { shortenNumber } from '../../../util/numbers.ts';
+import { MeterSettingsContext, PerSecondMode } from '../../../state/settings.ts';
+import { useOwnerOf } from '../../../state/pets.ts';
 
 //
 // module containing charts where the line items are characters
@@ -38,6 +47,17 @@ type Props = {
      * Should we render breakdown data as tooltips?
      */
     breakdownTooltips?: boolean;
+
+    /**
+     * If provided, only the last few seconds of the encounter are counted (for a live meter).
+     */
+    window?: number;
+
+    /**
+     * Should the chart include each entity's active time, with the per-second columns chosen in
+     * the meter settings?
+     */
+    active?: boolean;
 };
 
 /**
@@ -46,11 +66,25 @@ type Props = {
  * @param props the props accepted by the overall damage dealt chart
  * @constructor
  */
-export const OverallDamageDealtChart = (props: Props) => {
+export const OverallDamageDealtChart = observer((props: Props) => {
     const encounter = useEncounter();
+    const settings = useContext(MeterSettingsContext);
+    const seconds = Math.min(props.window ?? Infinity, encounter.duration.as('seconds'));
+
+    /**
+     * Get the damage dealt by an entity in the part of the encounter we're charting.
+     *
+     * @param entity the entity
+     */
+    const damageDealt = (entity: EncounterEntityState) =>
+        props.window ? entity.recentDamageDealt(props.window) : entity.damageDealt();
 
     // calculate the total damage done for the entities that we're charting.
-    const total = props.entities.reduce((acc, val) => acc + val.damageDealt(), 0);
+    const total = props.entities.reduce((acc, val) => acc + damageDealt(val), 0);
+    const { lines, petsOf, nameOf } = usePetRollup(
+        props.entities,
+        !!props.active && settings.mergePets,
+    );
 
     // a customize function for the meter items.
     const customize = props.customize ? props.customize : (e: EncounterEntityState) => ({});
@@ -61,9 +95,9 @@ export const OverallDamageDealtChart = (props: Props) => {
      * @param entity the entity
      */
     const toMeterItem = (entity: EncounterEntityState): MeterItem => {
-        const name = entity.isPet
-            ? `${entity.name} (${entity.owner?.name || `unknown`})`
-            : entity.name;
+        const rolledUp = petsOf(entity);
+        const pets = rolledUp.map((it) => toMeterItem(it)).filter((it) => it.value > 0);
+        const value = damageDealt(entity) + sumBy(pets, (it) => it.value);
         const tooltip = props.breakdownTooltips ? (
             <DamageByTargetChart
                 title={`damage by target`}
@@ -77,28 +111,35 @@ export const OverallDamageDealtChart = (props: Props) => {
         ) : null;
         return assign(customize(entity), {
             entity,
-            value: entity.damageDealt(),
-            displayName: name || `Unknown`,
+            value,
+            displayName: nameOf(entity) || `Unknown`,
             index: entity.index,
-            perSecond: entity.damageDealt() / encounter.duration.as('seconds'),
-            percent: (entity.damageDealt() / total) * 100,
+            perSecond: value / seconds,
+            percent: (value / total) * 100,
             tooltip,
+            children: pets.length ? pets : undefined,
+            ...(props.active &&
+                toActiveValues([entity, ...rolledUp], value, seconds, settings.gapTolerance)),
         });
     };
 
     // the columns to use for this chart.
-    const columns = props.columns ? props.columns : DAMAGE_METER_DEFAULT_COLUMNS;
+    const columns = props.columns
+        ? props.columns
+        : props.active
+          ? activeMeterColumns(`dps`, settings.perSecond)
+          : DAMAGE_METER_DEFAULT_COLUMNS;
 
     return (
         <DamageMeter
             title={props.title}
-            items={props.entities.map((it) => toMeterItem(it)).filter((it) => it.value > 0)}
+            items={lines.map((it) => toMeterItem(it)).filter((it) => it.value > 0)}
             columns={columns}
             header
             footer
         />
     );
-};
+});
 
 /**
  * A chart that ranks each provided entity according to their overall damage taken during the encounter.
@@ -289,11 +330,25 @@ export const DamageByTargetChart = (props: DamageByTargetProps) => {
  * @param props the props accepted by the overall healing done chart
  * @constructor
  */
-export const OverallHealingDoneChart = (props: Props) => {
+export const OverallHealingDoneChart = observer((props: Props) => {
     const encounter = useEncounter();
+    const settings = useContext(MeterSettingsContext);
+    const seconds = Math.min(props.window ?? Infinity, encounter.duration.as('seconds'));
+
+    /**
+     * Get the healing done by an entity in the part of the encounter we're charting.
+     *
+     * @param entity the entity
+     */
+    const healingDone = (entity: EncounterEntityState) =>
+        props.window ? entity.recentHealingDone(props.window) : entity.healingDone();
 
     // calculate the total damage done for the entities that we're charting.
-    const total = props.entities.reduce((acc, val) => acc + val.healingDone(), 0);
+    const total = props.entities.reduce((acc, val) => acc + healingDone(val), 0);
+    const { lines, petsOf, nameOf } = usePetRollup(
+        props.entities,
+        !!props.active && settings.mergePets,
+    );
 
     // a customize function for the meter items.
     const customize = props.customize ? props.customize : (e: EncounterEntityState) => ({});
@@ -304,25 +359,32 @@ export const OverallHealingDoneChart = (props: Props) => {
      * @param entity the entity
      */
     const toMeterItem = (entity: EncounterEntityState): MeterItem => {
-        const name = entity.isPet
-            ? `${entity.name} (${entity.owner?.name || `unknown`})`
-            : entity.name;
+        const rolledUp = petsOf(entity);
+        const pets = rolledUp.map((it) => toMeterItem(it)).filter((it) => it.value > 0);
+        const value = healingDone(entity) + sumBy(pets, (it) => it.value);
         return assign(
             {
                 entity,
-                value: entity.healingDone(),
-                displayName: name || `Unknown`,
+                value,
+                displayName: nameOf(entity) || `Unknown`,
                 index: entity.index,
-                perSecond: entity.healingDone() / encounter.duration.as('seconds'),
-                percent: (entity.healingDone() / total) * 100,
+                perSecond: value / seconds,
+                percent: (value / total) * 100,
+                children: pets.length ? pets : undefined,
+                ...(props.active &&
+                    toActiveValues([entity, ...rolledUp], value, seconds, settings.gapTolerance)),
             },
             customize(entity),
         );
     };
 
     // the columns to use for this chart.
-    const columns = props.columns ? props.columns : HEALING_METER_DEFAULT_COLUMNS;
-    const items = props.entities.map((it) => toMeterItem(it));
+    const columns = props.columns
+        ? props.columns
+        : props.active
+          ? activeMeterColumns(`hps`, settings.perSecond)
+          : HEALING_METER_DEFAULT_COLUMNS;
+    const items = lines.map((it) => toMeterItem(it));
 
     return (
         <DamageMeter
@@ -333,7 +395,7 @@ export const OverallHealingDoneChart = (props: Props) => {
             footer
         />
     );
-};
+});
 
 /**
  * A basic set of columns for a healing meter table.
@@ -359,6 +421,133 @@ const HEALING_METER_DEFAULT_COLUMNS: MeterColumn[] = [
     },
 ];
 
+/**
+ * Use the lines shown on a chart, rolling pets up into their owners' lines if pets are being merged
+ * with their owners. A pet is only rolled up if its owner is on the chart too.
+ *
+ * @param entities the entities on the chart
+ * @param merge should pets be rolled up into their owners?
+ */
+const usePetRollup = (entities: EncounterEntityState[], merge: boolean) => {
+    const ownerOf = useOwnerOf();
+
+    /**
+     * Is an entity rolled up into its owner's line?
+     *
+     * @param entity the entity
+     */
+    const isRolledUp = (entity: EncounterEntityState) => {
+        const owner = ownerOf(entity);
+        return merge && !!owner && entities.includes(owner);
+    };
+
+    return {
+        lines: entities.filter((it) => !isRolledUp(it)),
+
+        /**
+         * Get the pets rolled up into an entity's line.
+         *
+         * @param entity the entity
+         */
+        petsOf: (entity: EncounterEntityState) =>
+            entities.filter((it) => isRolledUp(it) && ownerOf(it) === entity),
+
+        /**
+         * Get the name to show for an entity, including the owner of pets.
+         *
+         * @param entity the entity
+         */
+        nameOf: (entity: EncounterEntityState) => {
+            const owner = ownerOf(entity);
+            if (!owner && !entity.isPet) return entity.name;
+            return `${entity.name} (${owner?.name || `unknown`})`;
+        },
+    };
+};
+
+/**
+ * Get the columns for a meter table which includes each entity's active time.
+ *
+ * @param unit the unit of the per-second columns, such as `dps`
+ * @param modes the ways of calculating per-second values to include a column for
+ */
+const activeMeterColumns = (unit: string, modes: PerSecondMode[]): MeterColumn[] => [
+    {
+        title: `%`,
+        value: (item) => item.percent,
+        format: (value: number) => `${round(value, 1)}%`,
+        total: '100%',
+    },
+    {
+        title: `active %`,
+        value: (item) => item.active,
+        format: (value: number) => `${round(value)}%`,
+        width: 60,
+    },
+    {
+        title: `total`,
+        value: (item) => item.value,
+        format: (value: number) => shortenNumber(value),
+        total: true,
+    },
+    ...modes.map((mode) => PER_SECOND_COLUMNS[mode](unit)),
+];
+
+/**
+ * The per-second columns for each way of calculating per-second values. Only values over the whole
+ * encounter add up to anything meaningful, so the others have no total.
+ */
+const PER_SECOND_COLUMNS: Record<PerSecondMode, (unit: string) => MeterColumn> = {
+    encounter: (unit) => ({
+        title: unit,
+        value: (item) => item.perSecond,
+        format: (value: number) => round(value).toLocaleString(),
+        total: true,
+    }),
+    present: (unit) => ({
+        title: `present ${unit}`,
+        value: (item) => item.perPresentSecond,
+        format: (value: number) => round(value).toLocaleString(),
+        width: 90,
+    }),
+    active: (unit) => ({
+        title: `active ${unit}`,
+        value: (item) => item.perActiveSecond,
+        format: (value: number) => round(value).toLocaleString(),
+        width: 80,
+    }),
+};
+
+/**
+ * Get the meter item values which depend on an entity's active time.
+ *
+ * When pets are rolled up into their owner's line, the value includes what the pets did too, so the
+ * line is active in every second in which either the owner or one of its pets performed an action.
+ *
+ * @param entities the entity, followed by any pets rolled up into its line
+ * @param value the damage or healing value for the line
+ * @param seconds the number of seconds in the part of the encounter we're charting
+ * @param tolerance the longest gap between two actions, in seconds, which counts as active
+ */
+const toActiveValues = (
+    entities: EncounterEntityState[],
+    value: number,
+    seconds: number,
+    tolerance: number,
+) => {
+    const actionSeconds =
+        entities.length === 1
+            ? entities[0].actionSeconds
+            : sortedUniq(sortBy(flatMap(entities, (it) => it.actionSeconds)));
+    const active = toActiveTime(actionSeconds, tolerance).as(`seconds`);
+    const present = toPresentTime(actionSeconds).as(`seconds`);
+    return {
+        active: Math.min(100, (active / seconds) * 100),
+        perPresentSecond: value / Math.max(1, present),
+        perActiveSecond: value / Math.max(1, active),
+    };
+};
+
 /**
  * A chart that ranks each provided entity according to their overall healing received during the encounter.
  *
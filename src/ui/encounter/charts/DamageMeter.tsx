@@ -11,7 +11,7 @@ import {
     TooltipChart,
 } from './Components.tsx';
 import { Link } from 'react-router-dom';
-import { ReactNode } from 'react';
+import { ReactNode, useState } from 'react';
 import { EncounterEntityState } from '../../../state/encounter.ts';
 import WithTooltip from '../../Tooltip.tsx';
 
@@ -44,11 +44,27 @@ export type MeterItem = {
      */
     perSecond: number;
 
+    /**
+     * The damage or healing value per second from this item's entity's first action to its last,
+     * if known.
+     */
+    perPresentSecond?: number;
+
+    /**
+     * The damage or healing value per second of this item's entity's active time, if known.
+     */
+    perActiveSecond?: number;
+
     /**
      * The percentage value for this item.
      */
     percent: number;
 
+    /**
+     * The percentage of the encounter in which this item's entity was active, if known.
+     */
+    active?: number;
+
     /**
      * Should this item link to another page?
      */
@@ -68,6 +84,12 @@ export type MeterItem = {
      * A tooltip to use when hovering over the main 'meter' component for this item.
      */
     tooltip?: ReactNode;
+
+    /**
+     * Items which are rolled up into this item (such as the pets of an owner), which can be shown
+     * below it.
+     */
+    children?: MeterItem[];
 };
 
 /**
@@ -160,6 +182,7 @@ type Props = {
  * @constructor
  */
 const DamageMeter = (props: Props) => {
+    const [expanded, setExpanded] = useState<string[]>([]);
     if (!props.items.length) return <></>;
     const i = sortBy(props.items, (it) => it.value * -1);
     const columns = props.columns ?? [];
@@ -173,7 +196,15 @@ const DamageMeter = (props: Props) => {
             [`1fr`],
         )
         .join(` `);
-    const items = i.map((it) => {
+    /**
+     * Render a line on the meter.
+     *
+     * @param it the item to render
+     * @param isChild is this item rolled up into another item? if so, it's indented below that
+     * item, and isn't counted in the totals.
+     */
+    const renderItem = (it: MeterItem, isChild = false) => {
+        const isExpanded = expanded.includes(it.entity.id);
         const main = it.tooltip ? (
             <WithTooltip
                 placement={`bottom-start`}
@@ -192,7 +223,9 @@ const DamageMeter = (props: Props) => {
                 $width={it.percent}
                 $link={!!it.link}
             >
-                <FirstItem>{main}</FirstItem>
+                <FirstItem $child={isChild} $expandable={!!it.children?.length}>
+                    {main}
+                </FirstItem>
                 {columns.map(
                     ({
                         title,
@@ -210,7 +243,7 @@ const DamageMeter = (props: Props) => {
                                 />
                             );
                         } else {
-                            if (total === true) {
+                            if (total === true && !isChild) {
                                 if (!totals[title]) totals[title] = 0;
                                 totals[title] += val;
                             }
@@ -233,14 +266,44 @@ const DamageMeter = (props: Props) => {
             </DamageMeterItemContainer>
         );
 
-        if (it.link)
-            return (
-                <Link key={`${props.title}-chart-${it.entity.id}`} to={it.link}>
-                    {item}
-                </Link>
-            );
-        return item;
-    });
+        const line = it.link ? (
+            <Link key={`${props.title}-chart-${it.entity.id}`} to={it.link}>
+                {item}
+            </Link>
+        ) : (
+            item
+        );
+        if (!it.children?.length) return line;
+
+        // the expand button sits over the line rather than inside it, so it's never part of the
+        // line's link.
+        return (
+            <ExpandableLine key={`${props.title}-chart-${it.entity.id}`}>
+                {line}
+                <ExpandButton
+                    $child={isChild}
+                    onClick={() =>
+                        setExpanded(
+                            isExpanded
+                                ? expanded.filter((id) => id !== it.entity.id)
+                                : [...expanded, it.entity.id],
+                        )
+                    }
+                >
+                    {isExpanded ? `-` : `+`}
+                </ExpandButton>
+            </ExpandableLine>
+        );
+    };
+
+    const items = i.flatMap((it) => [
+        renderItem(it),
+        ...(expanded.includes(it.entity.id)
+            ? sortBy(it.children ?? [], (child) => child.value * -1).map((child) =>
+                  renderItem(child, true),
+              )
+            : []),
+    ]);
 
     if (!props.isTooltip) {
         return (
@@ -287,8 +350,35 @@ const DamageMeterItemContainer = styled.div<{
 `;
 
 /**
- * Styled div that adds a small margin to the first item in a damage meter item container.
+ * Styled div that adds a small margin to the first item in a damage meter item container, indents
+ * items which are rolled up into another item, and leaves room for the expand button.
+ */
+const FirstItem = styled.div<{ $child: boolean; $expandable: boolean }>`
+    margin-left: ${(props) => (props.$child ? 20 : 4) + (props.$expandable ? 20 : 0)}px;
+`;
+
+/**
+ * Styled div which holds a damage meter line along with the button that expands it.
+ */
+const ExpandableLine = styled.div`
+    position: relative;
+`;
+
+/**
+ * Styled button which shows or hides the items rolled up into a damage meter item.
  */
-const FirstItem = styled.div`
-    margin-left: 4px;
+const ExpandButton = styled.button<{ $child: boolean }>`
+    position: absolute;
+    top: 50%;
+    left: ${(props) => (props.$child ? `20px` : `4px`)};
+    transform: translateY(-50%);
+    width: 16px;
+    padding: 0;
+    line-height: 1;
+    color: ${theme.color.white};
+    background: rgba(0, 0, 0, 0.25);
+
+    &:hover {
+        background: rgba(0, 0, 0, 0.5);
+    }
 `;
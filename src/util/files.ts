@@ -0,0 +1,31 @@
+// module containing helpful functions for choosing files to watch
+
+/**
+ * A window which may support the File System Access API, which lets us read a file again after it
+ * has changed. Not every browser supports it.
+ */
+type FilePickerWindow = Window & {
+    showOpenFilePicker?: () => Promise<FileSystemFileHandle[]>;
+};
+
+/**
+ * Does this browser let us watch a file for changes?
+ */
+export const canWatchFiles = () => (window as FilePickerWindow).showOpenFilePicker !== undefined;
+
+/**
+ * Ask the user to pick a file to watch.
+ *
+ * Resolves to undefined if the user closed the file picker without choosing a file, or if this
+ * browser can't watch files.
+ */
+export const pickFileToWatch = async (): Promise<FileSystemFileHandle | undefined> => {
+    const picker = (window as FilePickerWindow).showOpenFilePicker;
+    if (!picker) return undefined;
+    try {
+        const [handle] = await picker.call(window);
+        return handle;
+    } catch {
+        return undefined;
+    }
+};